@@ -2,8 +2,9 @@ import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, Notice, TFile }
 import { WorkspaceView, WORKSPACE_VIEW_TYPE } from './src/ui/WorkspaceView';
 import { GoogleFilePicker } from './src/ui/GoogleFilePicker';
 import { AIWorkspaceModal } from './src/ui/AIWorkspaceModal';
+import { SyncPreviewModal } from './src/ui/SyncPreviewModal';
 import { OAuthManager } from './src/auth/OAuth';
-import { DocsService } from './src/services/DocsService';
+import { DocsService, DocsImport, GoogleDocsDocument } from './src/services/DocsService';
 import { SheetsService } from './src/services/SheetsService';
 import { SlidesService } from './src/services/SlidesService';
 import { FormsService } from './src/services/FormsService';
@@ -12,6 +13,15 @@ import { DocsConverter } from './src/converters/DocsConverter';
 import { SheetsConverter } from './src/converters/SheetsConverter';
 import { SlidesConverter } from './src/converters/SlidesConverter';
 import { FormsConverter } from './src/converters/FormsConverter';
+import { SyncEngine, RemoteChangeFeed, SyncPreview } from './src/sync/SyncEngine';
+import { SyncScheduler } from './src/sync/SyncScheduler';
+import { LinkTracker } from './src/sync/LinkTracker';
+import { LinkFrontmatter } from './src/sync/LinkFrontmatter';
+import { SyncHistory } from './src/sync/SyncHistory';
+import { SyncRegion } from './src/sync/SyncRegion';
+import { ContentHash } from './src/utils/ContentHash';
+
+export type SyncMode = 'pull' | 'push' | 'two-way';
 
 export interface LinkedFile {
     localPath: string;
@@ -19,6 +29,18 @@ export interface LinkedFile {
     googleFileType: 'docs' | 'sheets' | 'slides' | 'forms';
     lastSyncedAt: string;
     googleFileName: string;
+    /** Markdown of the Google file as of the last sync, used as the merge base */
+    baseContent?: string;
+    /** Direction used by "Sync with Google"; links without one only pull */
+    syncMode?: SyncMode;
+    /** Drive revision key of the Google file as of the last sync */
+    remoteRevision?: string;
+    /** Hash of the note content as of the last sync */
+    localHash?: string;
+    /** Set when a Docs import added comments to the note, which pushes leave out */
+    annotated?: boolean;
+    /** Suggested edits marked in the note by a Docs import; it can't be pushed while they are in it */
+    suggestionMarkers?: string[];
 }
 
 export interface WorkspaceConnectSettings {
@@ -30,6 +52,58 @@ export interface WorkspaceConnectSettings {
     defaultImportFolder: string;
     googleDriveFolderId: string;
     linkedFiles: LinkedFile[];
+    conflictResolution: 'ask' | 'markers';
+    autoSyncEnabled: boolean;
+    /** Minutes between background syncs */
+    autoSyncInterval: number;
+    syncOnStartup: boolean;
+    syncOnSave: boolean;
+    autoSyncPaused: boolean;
+    /** Drive changes.list cursor from the end of the last full sync */
+    driveChangesPageToken: string;
+    /** What happens to a link when its note is deleted from the vault */
+    deletePolicy: 'ask' | 'unlink' | 'trash';
+    /** Show the sync preview before manual syncs write anything */
+    previewBeforeSync: boolean;
+    /** Link exported wikilinks to notes without a Google file via obsidian:// URIs */
+    wikilinkObsidianUri: boolean;
+    /** How a Doc with several tabs is imported */
+    docsTabImport: 'sections' | 'notes';
+    /** How comments are included when importing a Doc */
+    importComments: 'none' | 'footnotes' | 'section';
+    /** Mark pending suggested edits when importing a Doc */
+    importSuggestions: boolean;
+    /** Page setup of new Google Docs */
+    docsPageSize: 'letter' | 'a4';
+    docsLandscape: boolean;
+    docsMarginInches: number;
+    /** Header and footer templates of new Google Docs; empty for none */
+    docsHeader: string;
+    docsFooter: string;
+    /** Where the header and footer go when importing a Doc */
+    importHeadersFooters: 'none' | 'frontmatter' | 'section';
+    /** Export notes split at their H1 headings as one Docs tab per section */
+    exportH1AsTabs: boolean;
+    /** Render LaTeX math as images in exported Docs */
+    mathAsImages: boolean;
+    /** Images already uploaded to Drive for Docs exports, by vault path (or `math:<hash>` for formulas) */
+    uploadedImages: Record<string, UploadedImage>;
+}
+
+export interface UploadedImage {
+    fileId: string;
+    /** Modification time and size of the version that was uploaded */
+    mtime: number;
+    size: number;
+}
+
+export interface SyncRunOptions {
+    /** Started by the scheduler: no progress notices and no conflict dialogs */
+    background?: boolean;
+    /** Only sync links whose local note is one of these paths */
+    paths?: string[];
+    /** Let the user review and pick files before syncing (ignored for background runs) */
+    preview?: boolean;
 }
 
 const DEFAULT_SETTINGS: WorkspaceConnectSettings = {
@@ -40,7 +114,29 @@ const DEFAULT_SETTINGS: WorkspaceConnectSettings = {
     tokenExpiry: '',
     defaultImportFolder: '',
     googleDriveFolderId: '',
-    linkedFiles: []
+    linkedFiles: [],
+    conflictResolution: 'ask',
+    autoSyncEnabled: false,
+    autoSyncInterval: 15,
+    syncOnStartup: false,
+    syncOnSave: false,
+    autoSyncPaused: false,
+    driveChangesPageToken: '',
+    deletePolicy: 'ask',
+    previewBeforeSync: false,
+    wikilinkObsidianUri: false,
+    docsTabImport: 'sections',
+    importComments: 'none',
+    importSuggestions: false,
+    docsPageSize: 'letter',
+    docsLandscape: false,
+    docsMarginInches: 1,
+    docsHeader: '',
+    docsFooter: '',
+    importHeadersFooters: 'none',
+    exportH1AsTabs: false,
+    mathAsImages: false,
+    uploadedImages: {}
 }
 
 export default class WorkspaceConnectPlugin extends Plugin {
@@ -51,6 +147,12 @@ export default class WorkspaceConnectPlugin extends Plugin {
     slidesService: SlidesService;
     formsService: FormsService;
     driveService: DriveService;
+    syncEngine: SyncEngine;
+    syncScheduler: SyncScheduler;
+    linkTracker: LinkTracker;
+    linkFrontmatter: LinkFrontmatter;
+    syncHistory: SyncHistory;
+    private syncInProgress = false;
 
     async onload() {
         await this.loadSettings();
@@ -62,6 +164,11 @@ export default class WorkspaceConnectPlugin extends Plugin {
         this.slidesService = new SlidesService(this);
         this.formsService = new FormsService(this);
         this.driveService = new DriveService(this);
+        this.syncEngine = new SyncEngine(this);
+        this.syncScheduler = new SyncScheduler(this);
+        this.linkTracker = new LinkTracker(this);
+        this.linkFrontmatter = new LinkFrontmatter(this);
+        this.syncHistory = new SyncHistory(this);
 
         // Register View
         this.registerView(
@@ -166,6 +273,34 @@ export default class WorkspaceConnectPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'preview-sync-with-google',
+            name: 'Preview Sync with Google',
+            callback: async () => {
+                await this.syncLinkedFiles({ preview: true });
+            }
+        });
+
+        this.addCommand({
+            id: 'rebuild-links-from-frontmatter',
+            name: 'Rebuild Links from Frontmatter',
+            callback: async () => {
+                const { added, updated } = this.linkFrontmatter.rebuildLinks();
+                await this.saveSettings();
+                this.refreshWorkspaceViews();
+                new Notice(`Rebuilt links: ${added} added, ${updated} updated`);
+            }
+        });
+
+        this.addCommand({
+            id: 'toggle-auto-sync-pause',
+            name: 'Pause/Resume Auto-Sync',
+            callback: async () => {
+                const paused = await this.syncScheduler.togglePaused();
+                new Notice(paused ? 'Auto-sync paused' : 'Auto-sync resumed');
+            }
+        });
+
         this.addCommand({
             id: 'open-ai-workspace-creator',
             name: 'AI Workspace Creator',
@@ -182,6 +317,14 @@ export default class WorkspaceConnectPlugin extends Plugin {
         });
 
         this.addSettingTab(new WorkspaceConnectSettingTab(this.app, this));
+
+        // Keep links attached to notes that are renamed, moved or deleted
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.linkTracker.onRename(file, oldPath)));
+        this.registerEvent(this.app.vault.on('delete', (file) => this.linkTracker.onDelete(file)));
+
+        // Background sync
+        this.registerEvent(this.app.vault.on('modify', (file) => this.syncScheduler.onFileModified(file)));
+        this.app.workspace.onLayoutReady(() => this.syncScheduler.start(true));
     }
 
     async activateView() {
@@ -202,6 +345,37 @@ export default class WorkspaceConnectPlugin extends Plugin {
         }
     }
 
+    /**
+     * Re-render the Linked Files list in any open Workspace Connect view
+     */
+    refreshWorkspaceViews() {
+        for (const leaf of this.app.workspace.getLeavesOfType(WORKSPACE_VIEW_TYPE)) {
+            if (leaf.view instanceof WorkspaceView) {
+                leaf.view.renderLinkedFiles();
+            }
+        }
+    }
+
+    /**
+     * Register a new link and record it in the note's frontmatter
+     */
+    async addLinkedFile(file: TFile, linked: LinkedFile) {
+        this.settings.linkedFiles.push(linked);
+        await this.saveSettings();
+        await this.writeLinkFrontmatter(file, linked);
+    }
+
+    /**
+     * The frontmatter copy is a convenience; failing to write it must not fail the import or export
+     */
+    async writeLinkFrontmatter(file: TFile, linked: LinkedFile) {
+        try {
+            await this.linkFrontmatter.write(file, linked);
+        } catch (e: any) {
+            console.error(`Could not write link frontmatter to ${file.path}:`, e);
+        }
+    }
+
     async importGoogleFile(type: 'docs' | 'sheets' | 'slides' | 'forms') {
         if (!this.isAuthenticated()) {
             new Notice('Please connect to Google first in settings');
@@ -215,11 +389,27 @@ export default class WorkspaceConnectPlugin extends Plugin {
                 new Notice(`Importing: ${selectedFile.name}`);
 
                 let markdown = '';
+                let base: string | undefined;
+                let docsImport: DocsImport | undefined;
+                // Taken before reading the file, so changes made meanwhile are pulled later
+                const remoteRevision = this.driveService.getRevisionKey(await this.driveService.getFileMetadata(selectedFile.id));
+
+                const folder = this.settings.defaultImportFolder;
+                const fileName = this.sanitizeFileName(selectedFile.name) + '.md';
+                const filePath = folder ? `${folder}/${fileName}` : fileName;
 
                 switch (type) {
                     case 'docs':
-                        const docsContent = await this.docsService.getDocument(selectedFile.id);
-                        markdown = DocsConverter.toMarkdown(docsContent);
+                        const docsContent = await this.docsService.getDocument(selectedFile.id, this.settings.importSuggestions);
+                        if (this.settings.docsTabImport === 'notes' && DocsConverter.getTabs(docsContent).length > 1) {
+                            await this.importDocTabs(selectedFile.name, docsContent);
+                            return;
+                        }
+                        // Images are saved as attachments of the note about to be created
+                        docsImport = await this.docsService.importDocument(docsContent, filePath);
+                        markdown = docsImport.markdown;
+                        // Syncing leaves comments and the like out, so they are no change to merge
+                        base = docsImport.base;
                         break;
                     case 'sheets':
                         const sheetsContent = await this.sheetsService.getSpreadsheet(selectedFile.id);
@@ -236,10 +426,6 @@ export default class WorkspaceConnectPlugin extends Plugin {
                 }
 
                 // Create note in vault
-                const folder = this.settings.defaultImportFolder;
-                const fileName = this.sanitizeFileName(selectedFile.name) + '.md';
-                const filePath = folder ? `${folder}/${fileName}` : fileName;
-
                 // Ensure folder exists
                 if (folder) {
                     const folderExists = this.app.vault.getAbstractFileByPath(folder);
@@ -260,14 +446,18 @@ export default class WorkspaceConnectPlugin extends Plugin {
                 const file = await this.app.vault.create(finalPath, markdown);
 
                 // Add to linked files
-                this.settings.linkedFiles.push({
+                await this.addLinkedFile(file, {
                     localPath: finalPath,
                     googleFileId: selectedFile.id,
                     googleFileType: type,
                     lastSyncedAt: new Date().toISOString(),
-                    googleFileName: selectedFile.name
+                    googleFileName: selectedFile.name,
+                    baseContent: base ?? markdown,
+                    remoteRevision,
+                    localHash: ContentHash.hash(SyncRegion.extract(markdown)),
+                    annotated: docsImport && docsImport.markdown !== docsImport.base,
+                    suggestionMarkers: docsImport?.suggestions.length ? docsImport.suggestions : undefined
                 });
-                await this.saveSettings();
 
                 new Notice(`Imported: ${file.basename}`);
 
@@ -283,6 +473,33 @@ export default class WorkspaceConnectPlugin extends Plugin {
         }
     }
 
+    /**
+     * Import each tab of a Doc as a note in a folder named after the Doc. The
+     * notes aren't linked, since syncing writes a whole note to a document.
+     */
+    async importDocTabs(name: string, doc: GoogleDocsDocument) {
+        const parent = this.settings.defaultImportFolder;
+        const baseName = this.sanitizeFileName(name);
+        let folder = parent ? `${parent}/${baseName}` : baseName;
+        for (let counter = 1; this.app.vault.getAbstractFileByPath(folder); counter++) {
+            folder = parent ? `${parent}/${baseName} ${counter}` : `${baseName} ${counter}`;
+        }
+        await this.app.vault.createFolder(folder);
+
+        const notes = await this.docsService.tabsToNotes(doc, folder);
+        const files: TFile[] = [];
+        for (const note of notes) {
+            files.push(await this.app.vault.create(note.path, note.markdown));
+        }
+
+        new Notice(`Imported ${files.length} tabs to ${folder}`);
+
+        if (files.length > 0) {
+            const leaf = this.app.workspace.getLeaf(false);
+            await leaf.openFile(files[0]);
+        }
+    }
+
     async exportToGoogleDocs(file: TFile) {
         if (!this.isAuthenticated()) {
             new Notice('Please connect to Google first in settings');
@@ -290,31 +507,33 @@ export default class WorkspaceConnectPlugin extends Plugin {
         }
 
         try {
-            const content = await this.app.vault.read(file);
+            const content = SyncRegion.extract(await this.app.vault.read(file));
 
             // Check if this file is already linked
             const linked = this.settings.linkedFiles.find(l => l.localPath === file.path);
 
             if (linked && linked.googleFileType === 'docs') {
                 // Update existing document
-                await this.docsService.updateDocument(linked.googleFileId, content);
-                linked.lastSyncedAt = new Date().toISOString();
+                await this.syncEngine.pushContent(linked, content);
+                await this.syncEngine.refreshBase(linked, content);
                 await this.saveSettings();
+                await this.writeLinkFrontmatter(file, linked);
                 new Notice(`Updated Google Doc: ${linked.googleFileName}`);
             } else {
-                const docId = await this.docsService.createDocument(file.basename, content);
+                const docId = await this.docsService.createDocument(file.basename, content, file.path, { tabs: this.settings.exportH1AsTabs });
                 if (this.settings.googleDriveFolderId) {
                     await this.driveService.moveToFolder(docId, this.settings.googleDriveFolderId);
                 }
 
-                this.settings.linkedFiles.push({
+                const created: LinkedFile = {
                     localPath: file.path,
                     googleFileId: docId,
                     googleFileType: 'docs',
                     lastSyncedAt: new Date().toISOString(),
                     googleFileName: file.basename
-                });
-                await this.saveSettings();
+                };
+                await this.syncEngine.refreshBase(created, content);
+                await this.addLinkedFile(file, created);
                 new Notice(`Created Google Doc: ${file.basename}`);
             }
         } catch (e: any) {
@@ -330,7 +549,7 @@ export default class WorkspaceConnectPlugin extends Plugin {
         }
 
         try {
-            const content = await this.app.vault.read(file);
+            const content = SyncRegion.extract(await this.app.vault.read(file));
             const tables = SheetsConverter.extractTables(content);
 
             if (tables.length === 0) {
@@ -344,8 +563,9 @@ export default class WorkspaceConnectPlugin extends Plugin {
             if (linked) {
                 // Update existing spreadsheet
                 await this.sheetsService.updateSpreadsheet(linked.googleFileId, tables[0]);
-                linked.lastSyncedAt = new Date().toISOString();
+                await this.syncEngine.refreshBase(linked, content);
                 await this.saveSettings();
+                await this.writeLinkFrontmatter(file, linked);
                 new Notice(`Updated Google Sheet: ${linked.googleFileName}`);
             } else {
                 const sheetId = await this.sheetsService.createSpreadsheet(file.basename, tables[0]);
@@ -353,14 +573,15 @@ export default class WorkspaceConnectPlugin extends Plugin {
                     await this.driveService.moveToFolder(sheetId, this.settings.googleDriveFolderId);
                 }
 
-                this.settings.linkedFiles.push({
+                const created: LinkedFile = {
                     localPath: file.path,
                     googleFileId: sheetId,
                     googleFileType: 'sheets',
                     lastSyncedAt: new Date().toISOString(),
                     googleFileName: file.basename
-                });
-                await this.saveSettings();
+                };
+                await this.syncEngine.refreshBase(created, content);
+                await this.addLinkedFile(file, created);
                 new Notice(`Created Google Sheet: ${file.basename}`);
             }
         } catch (e: any) {
@@ -382,23 +603,24 @@ export default class WorkspaceConnectPlugin extends Plugin {
 
             if (activeFile && activeFile.extension === 'md') {
                 title = activeFile.basename;
-                content = await this.app.vault.read(activeFile);
+                content = SyncRegion.extract(await this.app.vault.read(activeFile));
             }
 
-            const docId = await this.docsService.createDocument(title, content);
+            const docId = await this.docsService.createDocument(title, content, activeFile?.path, { tabs: this.settings.exportH1AsTabs });
             if (this.settings.googleDriveFolderId) {
                 await this.driveService.moveToFolder(docId, this.settings.googleDriveFolderId);
             }
 
             if (activeFile) {
-                this.settings.linkedFiles.push({
+                const created: LinkedFile = {
                     localPath: activeFile.path,
                     googleFileId: docId,
                     googleFileType: 'docs',
                     lastSyncedAt: new Date().toISOString(),
                     googleFileName: title
-                });
-                await this.saveSettings();
+                };
+                await this.syncEngine.refreshBase(created, content);
+                await this.addLinkedFile(activeFile, created);
             }
 
             new Notice(`Created Google Doc: ${title}`);
@@ -408,64 +630,175 @@ export default class WorkspaceConnectPlugin extends Plugin {
         }
     }
 
-    async syncLinkedFiles() {
+    /**
+     * Sync linked files. Resolves to false when another sync held the lock, so
+     * callers that can't show a notice can try again later.
+     */
+    async syncLinkedFiles(options: SyncRunOptions = {}): Promise<boolean> {
+        const background = !!options.background;
+
         if (!this.isAuthenticated()) {
-            new Notice('Please connect to Google first in settings');
-            return;
+            if (!background) {
+                new Notice('Please connect to Google first in settings');
+            }
+            return true;
         }
 
-        const linkedFiles = this.settings.linkedFiles;
+        const linkedFiles = options.paths
+            ? this.settings.linkedFiles.filter(l => options.paths!.includes(l.localPath))
+            : this.settings.linkedFiles;
         if (linkedFiles.length === 0) {
-            new Notice('No linked files to sync');
-            return;
+            if (!background) {
+                new Notice('No linked files to sync');
+            }
+            return true;
+        }
+
+        const preview = !background && (options.preview || this.settings.previewBeforeSync);
+
+        const ran = await this.withSyncLock(async () => {
+            // Partial runs must not advance the change feed past files they don't sync
+            const feed = options.paths ? null : await this.readChangeFeed();
+
+            if (!preview) {
+                await this.runSync(linkedFiles, background, feed, !!feed);
+                return;
+            }
+
+            const selected = await this.previewSync(linkedFiles, feed);
+            if (!selected || selected.length === 0) return;
+            await this.runSync(selected, false, feed, !!feed && selected.length === linkedFiles.length);
+        });
+        if (!ran && !background) {
+            new Notice('A sync is already in progress');
+        }
+        return ran;
+    }
+
+    /**
+     * Show what a sync would change and let the user pick the files to sync.
+     * Resolves to null when the preview is cancelled.
+     */
+    private async previewSync(linkedFiles: LinkedFile[], feed: RemoteChangeFeed | null): Promise<LinkedFile[] | null> {
+        new Notice(`Checking ${linkedFiles.length} files...`);
+
+        const previews: SyncPreview[] = [];
+        for (const linked of linkedFiles) {
+            const localFile = this.app.vault.getAbstractFileByPath(linked.localPath);
+            const file = localFile instanceof TFile ? localFile : null;
+            try {
+                previews.push(await this.syncEngine.preview(linked, file, { remoteChanges: feed?.changed }));
+            } catch (e: any) {
+                console.error(`Sync preview error for ${linked.localPath}:`, e);
+                previews.push({ linked, status: 'unchanged', target: null, before: '', after: '', conflicts: 0, error: e.message });
+            }
+        }
+
+        return new SyncPreviewModal(this.app, previews).openAndWait();
+    }
+
+    private async readChangeFeed(): Promise<RemoteChangeFeed | null> {
+        try {
+            return await this.syncEngine.readChangeFeed();
+        } catch (e: any) {
+            console.error('Could not read Drive change feed:', e);
+            return null;
+        }
+    }
+
+    /**
+     * Run a sync task unless another one is already running, so two runs never
+     * touch the same notes at once. Returns false when the task was not run.
+     */
+    async withSyncLock(task: () => Promise<void>): Promise<boolean> {
+        if (this.syncInProgress) {
+            return false;
+        }
+
+        this.syncInProgress = true;
+        try {
+            await task();
+        } finally {
+            this.syncInProgress = false;
+        }
+        return true;
+    }
+
+    /**
+     * Sync the given links. `advanceFeed` stores the feed cursor afterwards, which
+     * is only safe when every link was synced.
+     */
+    private async runSync(linkedFiles: LinkedFile[], background: boolean, feed: RemoteChangeFeed | null, advanceFeed: boolean) {
+        if (!background) {
+            new Notice(`Syncing ${linkedFiles.length} files...`);
         }
 
-        new Notice(`Syncing ${linkedFiles.length} files...`);
         let synced = 0;
+        let unchanged = 0;
+        let conflicts = 0;
+        let skipped = 0;
+        let missing = 0;
         let errors = 0;
 
         for (const linked of linkedFiles) {
             try {
                 const localFile = this.app.vault.getAbstractFileByPath(linked.localPath);
                 if (!localFile || !(localFile instanceof TFile)) {
+                    // Check the file again once the note is back, even if the feed has moved on
+                    linked.remoteRevision = undefined;
+                    missing++;
                     continue;
                 }
 
-                // Get Google content
-                let googleMarkdown = '';
-
-                switch (linked.googleFileType) {
-                    case 'docs':
-                        const docsData = await this.docsService.getDocument(linked.googleFileId);
-                        googleMarkdown = DocsConverter.toMarkdown(docsData);
-                        break;
-                    case 'sheets':
-                        const sheetsData = await this.sheetsService.getSpreadsheet(linked.googleFileId);
-                        googleMarkdown = SheetsConverter.toMarkdown(sheetsData);
-                        break;
-                    case 'slides':
-                        const slidesData = await this.slidesService.getPresentation(linked.googleFileId);
-                        googleMarkdown = SlidesConverter.toMarkdown(slidesData);
-                        break;
-                    case 'forms':
-                        const formsData = await this.formsService.getForm(linked.googleFileId);
-                        googleMarkdown = FormsConverter.toMarkdown(formsData);
-                        break;
+                const result = await this.syncEngine.sync(linked, localFile, {
+                    interactive: !background,
+                    remoteChanges: feed?.changed
+                });
+                if (result.status === 'conflict') {
+                    conflicts++;
+                } else if (result.status === 'unchanged') {
+                    unchanged++;
+                } else if (result.status === 'skipped') {
+                    // The remote changes weren't taken; don't let the feed cursor pass over them
+                    linked.remoteRevision = undefined;
+                    skipped++;
+                } else {
+                    synced++;
                 }
 
-                // Update local file with Google content
-                await this.app.vault.modify(localFile, googleMarkdown);
-                linked.lastSyncedAt = new Date().toISOString();
-                synced++;
-
             } catch (e: any) {
                 console.error(`Sync error for ${linked.localPath}:`, e);
+                if (!background) {
+                    // e.g. a push refused because the note has nothing to write
+                    new Notice(`Sync failed for ${linked.localPath}: ${e.message}`);
+                }
+                // Forget the revision so the next run checks this file even if the feed has moved on
+                linked.remoteRevision = undefined;
                 errors++;
             }
         }
 
+        if (feed && advanceFeed) {
+            this.settings.driveChangesPageToken = feed.nextPageToken;
+        }
         await this.saveSettings();
-        new Notice(`Synced ${synced} files, ${errors} errors`);
+
+        // Background runs stay quiet unless something happened
+        if (background && synced === 0 && conflicts === 0 && skipped === 0 && errors === 0) {
+            return;
+        }
+
+        let summary = `Synced ${synced} files, ${unchanged} unchanged`;
+        if (conflicts > 0) {
+            summary += `, ${conflicts} with conflicts`;
+        }
+        if (background && skipped > 0) {
+            summary += `, ${skipped} need manual sync`;
+        }
+        if (missing > 0) {
+            summary += `, ${missing} missing notes`;
+        }
+        new Notice(`${summary}, ${errors} errors`);
     }
 
     isAuthenticated(): boolean {
@@ -477,7 +810,7 @@ export default class WorkspaceConnectPlugin extends Plugin {
     }
 
     onunload() {
-        // Cleanup
+        this.syncScheduler.stop();
     }
 
     async loadSettings() {
@@ -606,6 +939,238 @@ class WorkspaceConnectSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Doc Tabs')
+            .setDesc('How a Google Doc with several tabs is imported: as one note with a section per tab, or as a note per tab in a folder named after the Doc. Notes per tab aren\'t linked for sync.')
+            .addDropdown(dropdown => dropdown
+                .addOption('sections', 'One note, a section per tab')
+                .addOption('notes', 'A note per tab')
+                .setValue(this.plugin.settings.docsTabImport)
+                .onChange(async (value) => {
+                    this.plugin.settings.docsTabImport = value as 'sections' | 'notes';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Doc Headers and Footers')
+            .setDesc('Include the header and footer text when importing a Google Doc: as google_header and google_footer in the frontmatter, or in a collapsed callout at the end of the note.')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Leave out')
+                .addOption('frontmatter', 'In frontmatter')
+                .addOption('section', 'In a callout')
+                .setValue(this.plugin.settings.importHeadersFooters)
+                .onChange(async (value) => {
+                    this.plugin.settings.importHeadersFooters = value as 'none' | 'frontmatter' | 'section';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Doc Comments')
+            .setDesc('Include open comments when importing a Google Doc: as footnotes after the commented text, or listed in a Comments section at the end. Synced notes never include them.')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Leave out')
+                .addOption('footnotes', 'As footnotes')
+                .addOption('section', 'In a Comments section')
+                .setValue(this.plugin.settings.importComments)
+                .onChange(async (value) => {
+                    this.plugin.settings.importComments = value as 'none' | 'footnotes' | 'section';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Doc Suggestions')
+            .setDesc('Mark pending suggested edits when importing a Google Doc, with ==insertions== highlighted and ~~deletions~~ struck through.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.importSuggestions)
+                .onChange(async (value) => {
+                    this.plugin.settings.importSuggestions = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Export Settings
+        containerEl.createEl('h3', { text: 'Export Settings' });
+
+        new Setting(containerEl)
+            .setName('Link Unsynced Notes')
+            .setDesc('Wikilinks to notes linked to a Google file always point to that file. Turn this on to link other notes with obsidian:// URLs instead of exporting plain text.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.wikilinkObsidianUri)
+                .onChange(async (value) => {
+                    this.plugin.settings.wikilinkObsidianUri = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Page Size')
+            .setDesc('Page size of new Google Docs')
+            .addDropdown(dropdown => dropdown
+                .addOption('letter', 'Letter')
+                .addOption('a4', 'A4')
+                .setValue(this.plugin.settings.docsPageSize)
+                .onChange(async (value) => {
+                    this.plugin.settings.docsPageSize = value as 'letter' | 'a4';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Landscape')
+            .setDesc('Turn the pages of new Google Docs sideways')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.docsLandscape)
+                .onChange(async (value) => {
+                    this.plugin.settings.docsLandscape = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Page Margins')
+            .setDesc('Margin on every side of the page, in inches')
+            .addText(text => text
+                .setPlaceholder('1')
+                .setValue(String(this.plugin.settings.docsMarginInches))
+                .onChange(async (value) => {
+                    const margin = parseFloat(value);
+                    if (isNaN(margin) || margin < 0) return;
+                    this.plugin.settings.docsMarginInches = margin;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Header')
+            .setDesc('Header text of new Google Docs, where {{title}} and {{date}} are filled in. {{page}} and {{pages}} are not supported and are left out: the Docs API can\'t insert page numbers, so add them in Docs with Insert > Page numbers. Leave empty for no header.')
+            .addText(text => text
+                .setPlaceholder('{{title}}')
+                .setValue(this.plugin.settings.docsHeader)
+                .onChange(async (value) => {
+                    this.plugin.settings.docsHeader = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Footer')
+            .setDesc('Footer text of new Google Docs, like the header. Leave empty for no footer.')
+            .addText(text => text
+                .setPlaceholder('{{date}}')
+                .setValue(this.plugin.settings.docsFooter)
+                .onChange(async (value) => {
+                    this.plugin.settings.docsFooter = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('H1 Sections as Tabs')
+            .setDesc('Give new Google Docs one tab per H1 section of the note, named after the heading. Docs that have several tabs are always updated tab by tab.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.exportH1AsTabs)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportH1AsTabs = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Math as Images')
+            .setDesc('Render $inline$ and $$block$$ LaTeX to images on this device when exporting to Docs. The LaTeX is kept with each image, so importing the document restores it. When off, math is exported as text.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.mathAsImages)
+                .onChange(async (value) => {
+                    this.plugin.settings.mathAsImages = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Sync Settings
+        containerEl.createEl('h3', { text: 'Sync Settings' });
+
+        new Setting(containerEl)
+            .setName('Conflict Resolution')
+            .setDesc('What to do when a note and its Google file changed the same lines since the last sync')
+            .addDropdown(dropdown => dropdown
+                .addOption('ask', 'Open resolution view')
+                .addOption('markers', 'Write conflict markers')
+                .setValue(this.plugin.settings.conflictResolution)
+                .onChange(async (value) => {
+                    this.plugin.settings.conflictResolution = value as 'ask' | 'markers';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Preview Before Syncing')
+            .setDesc('Review what "Sync with Google" would change and pick the files to sync. Background syncs never preview.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.previewBeforeSync)
+                .onChange(async (value) => {
+                    this.plugin.settings.previewBeforeSync = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Auto-Sync')
+            .setDesc('Sync all linked files in the background')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSyncEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncEnabled = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.syncScheduler.restart();
+                }));
+
+        new Setting(containerEl)
+            .setName('Auto-Sync Interval')
+            .setDesc('Minutes between background syncs (a small random offset is added)')
+            .addText(text => text
+                .setPlaceholder('15')
+                .setValue(String(this.plugin.settings.autoSyncInterval))
+                .onChange(async (value) => {
+                    const minutes = parseInt(value, 10);
+                    if (isNaN(minutes) || minutes < 1) return;
+                    this.plugin.settings.autoSyncInterval = minutes;
+                    await this.plugin.saveSettings();
+                    this.plugin.syncScheduler.restart();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync on Startup')
+            .setDesc('Sync shortly after the vault is opened')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.syncOnStartup)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncOnStartup = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync on Save')
+            .setDesc('Sync a linked note a few seconds after you stop editing it')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.syncOnSave)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncOnSave = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Pause Auto-Sync')
+            .setDesc('Temporarily stop interval, startup and on-save syncing')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSyncPaused)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncPaused = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.syncScheduler.restart();
+                }));
+
+        new Setting(containerEl)
+            .setName('When a Linked Note Is Deleted')
+            .setDesc('Renames and moves are always followed; this controls what happens on delete')
+            .addDropdown(dropdown => dropdown
+                .addOption('ask', 'Ask every time')
+                .addOption('unlink', 'Unlink only')
+                .addOption('trash', 'Move the Google file to trash')
+                .setValue(this.plugin.settings.deletePolicy)
+                .onChange(async (value) => {
+                    this.plugin.settings.deletePolicy = value as 'ask' | 'unlink' | 'trash';
+                    await this.plugin.saveSettings();
+                }));
+
         // Linked Files
         containerEl.createEl('h3', { text: 'Linked Files' });
 
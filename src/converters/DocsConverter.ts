@@ -1,193 +1,1656 @@
-import { GoogleDocsDocument, DocumentContent, ParagraphElement, TableRow } from '../services/DocsService';
+import { GoogleDocsDocument, DocsTab, DocumentContent, DocsList, ParagraphElement, TableRow } from '../services/DocsService';
+import { DriveComment, DriveCommentReply } from '../services/DriveService';
+import { DocsRequestBuilder } from './DocsRequestBuilder';
+import { MarkdownInline, InlineSpan, InlineObject, InlineOptions, MathImage } from './MarkdownInline';
+
+type ListType = 'BULLET' | 'NUMBER' | 'CHECKBOX';
+
+interface ListLine {
+    type: ListType;
+    /** Indentation width in columns (a tab counts as four) */
+    indent: number;
+    /** Task list item marked done */
+    checked: boolean;
+}
+
+const LIST_PRESETS: Record<ListType, string> = {
+    BULLET: 'BULLET_DISC_CIRCLE_SQUARE',
+    NUMBER: 'NUMBERED_DECIMAL_ALPHA_ROMAN',
+    CHECKBOX: 'BULLET_CHECKBOX'
+};
+
+/** Docs supports nesting levels 0-8 */
+const MAX_LIST_LEVEL = 8;
+
+/** Delimiter row under a table header, e.g. `| --- | :---: |` */
+const TABLE_ALIGN_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+type TableAlignment = 'START' | 'CENTER' | 'END' | null;
+
+interface MarkdownTable {
+    /** Header row first */
+    rows: string[][];
+    /** One entry per column; null keeps the default */
+    alignments: TableAlignment[];
+    /** Source lines consumed, including the alignment row */
+    lineCount: number;
+}
+
+/** Font used for code blocks and inline code */
+const CODE_FONT = 'Courier New';
+/** Fonts recognised as code on import */
+const MONOSPACE_FONT = /mono|courier|consolas|menlo|monaco|inconsolata|cousine|source code/i;
+/** Code blocks are wrapped in a named range `markdown-code:<language>` so the fence language survives */
+const CODE_RANGE_PREFIX = 'markdown-code:';
+const CODE_SHADING = { backgroundColor: { color: { rgbColor: { red: 0.95, green: 0.95, blue: 0.95 } } } };
+
+interface CodeFence {
+    language: string;
+    lines: string[];
+    /** Source lines consumed, including both fences */
+    lineCount: number;
+}
+
+/** `[^label]: text` */
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+/** Three or more `-`, `*` or `_`, optionally spaced */
+const HORIZONTAL_RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}((?:>[ \t]?)+)(.*)$/;
+/** Indentation of a block quote per nesting level, in points */
+const QUOTE_INDENT = 36;
+/** Block quotes get a left border, which tells them apart from paragraphs that are only indented */
+const QUOTE_BORDER = {
+    color: { color: { rgbColor: { red: 0.8, green: 0.8, blue: 0.8 } } },
+    width: { magnitude: 3, unit: 'PT' },
+    padding: { magnitude: 6, unit: 'PT' },
+    dashStyle: 'SOLID'
+};
+/** Docs has no request for inserting a horizontal rule, so rules are empty paragraphs with a bottom border */
+const RULE_BORDER = {
+    color: { color: { rgbColor: { red: 0.6, green: 0.6, blue: 0.6 } } },
+    width: { magnitude: 1, unit: 'PT' },
+    padding: { magnitude: 1, unit: 'PT' },
+    dashStyle: 'SOLID'
+};
+
+type Rgb = [number, number, number];
+
+/** Background and left border color of each callout type, after Obsidian's default colors */
+const CALLOUT_COLORS: Record<string, { shading: Rgb; border: Rgb }> = {
+    note: { shading: [0.91, 0.95, 1], border: [0.27, 0.52, 0.96] },
+    abstract: { shading: [0.9, 0.97, 0.98], border: [0, 0.69, 0.75] },
+    info: { shading: [0.91, 0.95, 1], border: [0.27, 0.52, 0.96] },
+    todo: { shading: [0.91, 0.95, 1], border: [0.27, 0.52, 0.96] },
+    tip: { shading: [0.9, 0.97, 0.98], border: [0, 0.69, 0.75] },
+    success: { shading: [0.91, 0.97, 0.91], border: [0.27, 0.73, 0.35] },
+    question: { shading: [1, 0.96, 0.88], border: [0.93, 0.66, 0] },
+    warning: { shading: [1, 0.94, 0.88], border: [0.93, 0.49, 0] },
+    failure: { shading: [0.99, 0.92, 0.92], border: [0.91, 0.24, 0.28] },
+    danger: { shading: [0.99, 0.92, 0.92], border: [0.91, 0.24, 0.28] },
+    bug: { shading: [0.99, 0.92, 0.92], border: [0.91, 0.24, 0.28] },
+    example: { shading: [0.95, 0.92, 1], border: [0.47, 0.33, 0.93] },
+    quote: { shading: [0.97, 0.97, 0.97], border: [0.62, 0.62, 0.62] }
+};
+
+/** Other names Obsidian accepts for the callout types above */
+const CALLOUT_ALIASES: Record<string, string> = {
+    summary: 'abstract',
+    tldr: 'abstract',
+    hint: 'tip',
+    important: 'tip',
+    check: 'success',
+    done: 'success',
+    help: 'question',
+    faq: 'question',
+    caution: 'warning',
+    attention: 'warning',
+    fail: 'failure',
+    missing: 'failure',
+    error: 'danger',
+    cite: 'quote'
+};
+
+/** `> [!type]` with an optional fold marker and title */
+const CALLOUT_START = /^ {0,3}>[ \t]?\[!([^\]\s]+)\]([+-]?)[ \t]*(.*)$/;
+/** Callouts are wrapped in a named range `markdown-callout:<type><fold>` so the exact type survives */
+const CALLOUT_RANGE_PREFIX = 'markdown-callout:';
+
+interface Callout {
+    type: string;
+    /** `+`, `-` or empty */
+    fold: string;
+    title: string;
+    /** Content lines with one level of `>` removed */
+    lines: string[];
+    /** Source lines consumed */
+    lineCount: number;
+}
+
+interface CalloutBlock {
+    type: string;
+    fold: string;
+    /** Index the block's named range ends at; null when recognised by its colors */
+    endIndex: number | null;
+}
+
+/** Formula images are wrapped in a named range `markdown-math:<source>`, so import can restore the LaTeX */
+const MATH_RANGE_PREFIX = 'markdown-math:';
+/** Docs limits named range names to 256 characters; longer formulas stay text */
+const MAX_RANGE_NAME = 256;
+
+interface MathBlock {
+    latex: string;
+    /** Source lines consumed, including the `$$` lines */
+    lineCount: number;
+}
+
+/**
+ * Link target of `[[#Heading]]` until the document is written. Heading ids are
+ * assigned by Docs, so these links are pointed at the headings afterwards.
+ */
+const HEADING_LINK_PREFIX = '#heading-text=';
+/** Link target Docs uses for a link to a heading */
+const DOCS_HEADING_LINK = /^#heading=(h\.[\w-]+)$/;
+
+const HEADING_LEVELS: Record<string, number> = {
+    HEADING_1: 1,
+    HEADING_2: 2,
+    HEADING_3: 3,
+    HEADING_4: 4,
+    HEADING_5: 5,
+    HEADING_6: 6
+};
+
+interface DocsHeading {
+    headingId: string;
+    /** Plain text without the trailing newline */
+    text: string;
+    level: number;
+}
+
+/** Heading of the section comments are listed in */
+const COMMENTS_HEADING = '## Comments';
+/** Label prefix of footnotes holding comments, keeping them apart from the document's own footnotes */
+const COMMENT_FOOTNOTE_PREFIX = 'comment-';
+/** First line of the callout a document's header and footer are imported as */
+const HEADER_FOOTER_CALLOUT = '> [!note]- Header and footer';
+
+/** Top-level part of a document body and the Markdown it converted to */
+interface DocsBlock {
+    /** Range of the Markdown lines */
+    from: number;
+    to: number;
+    startIndex: number;
+    endIndex: number;
+    kind: 'paragraph' | 'list' | 'table';
+}
+
+/** Source lines of a block of a note, e.g. a paragraph, code block or list item */
+interface MarkdownBlock {
+    from: number;
+    to: number;
+    kind: 'paragraph' | 'list' | 'table';
+}
+
+/** Stands in for images when comparing blocks */
+const OBJECT_PLACEHOLDER = '\uFFFC';
+/** `![[target]]` or `![alt](target)` */
+const IMAGE_EMBED = /!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g;
+/** `[^label]` not starting a definition */
+const FOOTNOTE_REFERENCE = /.\[\^[^\]\s]+\]|^\[\^[^\]\s]+\](?!:)/;
+
+/** Glyph types of numbered list levels; unnumbered levels use a glyph symbol instead */
+const ORDERED_GLYPH_TYPES = ['DECIMAL', 'ZERO_DECIMAL', 'UPPER_ALPHA', 'ALPHA', 'UPPER_ROMAN', 'ROMAN'];
+
+export interface DocsExportOptions extends InlineOptions {
+    /** Tab the requests write to; the first tab when unset */
+    tabId?: string;
+}
+
+export interface DocsExport {
+    requests: any[];
+    /** Inline Markdown for each footnote the requests create, in request order */
+    footnotes: string[];
+    /** Whether links to headings need `headingLinkRequests()` once the document is written */
+    headingLinks: boolean;
+}
+
+export interface DocsImportOptions {
+    /** Wikilink target for a link URL (e.g. another linked Google file), or null to keep the URL */
+    resolveLinkTarget?: (url: string) => string | null;
+    /** Markdown embed for an inline object such as an image, or null to leave it out */
+    resolveInlineObject?: (inlineObjectId: string) => string | null;
+    /** Mark the text of pending suggested edits as `==insertions==` and `~~deletions~~` */
+    suggestions?: boolean;
+    /** Called with the Markdown of each suggested edit marked */
+    onSuggestion?: (markdown: string) => void;
+    /** Comments to include; resolved and deleted ones are left out */
+    comments?: DriveComment[];
+    /** Include the default header and footer in frontmatter or in a collapsed callout at the end */
+    headersFooters?: 'frontmatter' | 'section';
+    /**
+     * `footnotes` puts each comment in a footnote after the text it is anchored
+     * to; comments whose text can't be found, and all of them with `section`,
+     * are listed under a Comments heading at the end
+     */
+    commentStyle?: 'footnotes' | 'section';
+}
 
 export class DocsConverter {
     /**
-     * Convert Google Docs document to Markdown
+     * Convert Google Docs document to Markdown. Each tab of a document with
+     * several becomes a section under the tab's title.
+     */
+    static toMarkdown(doc: GoogleDocsDocument, importOptions: DocsImportOptions = {}): string {
+        const lines: string[] = [];
+        const tabFootnotes: string[] = [];
+
+        for (const tab of this.getTabs(doc)) {
+            const options = this.withDocumentOptions(tab, importOptions);
+
+            // Add title as H1
+            if (lines.length > 0 && lines[lines.length - 1]) {
+                lines.push('');
+            }
+            lines.push(`# ${tab.title}`);
+            lines.push('');
+
+            this.convertBody(tab, options, lines);
+            tabFootnotes.push(...this.convertFootnotes(tab, options));
+        }
+
+        const header = this.convertHeaderFooter(doc, 'header', importOptions);
+        const footer = this.convertHeaderFooter(doc, 'footer', importOptions);
+        if ((header || footer) && importOptions.headersFooters === 'section') {
+            if (lines[lines.length - 1]) {
+                lines.push('');
+            }
+            lines.push(HEADER_FOOTER_CALLOUT);
+            if (header) {
+                lines.push(`> **Header:** ${header}`);
+            }
+            if (footer) {
+                lines.push(`> **Footer:** ${footer}`);
+            }
+            lines.push('');
+        }
+
+        const comments = (importOptions.comments || []).filter(comment => !comment.deleted && !comment.resolved);
+        const commentFootnotes: string[] = [];
+        const listedComments: DriveComment[] = [];
+        for (const comment of comments) {
+            const label = `${COMMENT_FOOTNOTE_PREFIX}${commentFootnotes.length + 1}`;
+            if (importOptions.commentStyle === 'footnotes' && this.anchorComment(lines, comment, `[^${label}]`)) {
+                commentFootnotes.push(`[^${label}]: ${this.formatComment(comment)}`);
+            } else {
+                listedComments.push(comment);
+            }
+        }
+        if (listedComments.length > 0) {
+            if (lines[lines.length - 1]) {
+                lines.push('');
+            }
+            lines.push(COMMENTS_HEADING, '');
+            for (const comment of listedComments) {
+                lines.push(...this.convertComment(comment), '');
+            }
+        }
+
+        const footnotes = [...tabFootnotes, ...commentFootnotes];
+        if (footnotes.length > 0) {
+            if (lines[lines.length - 1]) {
+                lines.push('');
+            }
+            lines.push(...footnotes);
+        }
+
+        if ((header || footer) && importOptions.headersFooters === 'frontmatter') {
+            const frontmatter = ['---'];
+            if (header) {
+                frontmatter.push(`google_header: ${JSON.stringify(header)}`);
+            }
+            if (footer) {
+                frontmatter.push(`google_footer: ${JSON.stringify(footer)}`);
+            }
+            frontmatter.push('---');
+            lines.unshift(...frontmatter);
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Remove what toMarkdown adds to a document's own content on import: the
+     * Comments section and comment footnotes. Suggested edits are left alone, as
+     * their markers can't be told apart from highlights and strikethrough.
+     */
+    static stripAnnotations(markdown: string): string {
+        const lines = markdown.split('\n');
+        const kept: string[] = [];
+        const commentReference = new RegExp(`\\[\\^${COMMENT_FOOTNOTE_PREFIX}[^\\]\\s]+\\]`, 'g');
+
+        for (let i = 0; i < lines.length; i++) {
+            if (lines[i] === COMMENTS_HEADING) {
+                // The section runs up to the footnotes or the end of the note
+                while (i + 1 < lines.length && !FOOTNOTE_DEFINITION.test(lines[i + 1]) && !/^#{1,2} /.test(lines[i + 1])) {
+                    i++;
+                }
+                while (kept.length > 0 && !kept[kept.length - 1]) {
+                    kept.pop();
+                }
+                if (kept.length > 0 && i + 1 < lines.length) {
+                    kept.push('');
+                }
+                continue;
+            }
+
+            const footnote = lines[i].match(FOOTNOTE_DEFINITION);
+            if (footnote && footnote[1].startsWith(COMMENT_FOOTNOTE_PREFIX)) continue;
+
+            kept.push(lines[i].replace(commentReference, ''));
+        }
+
+        // Nor the blank line in front of comment footnotes that ended the note
+        const trailingBlanks = (text: string[]) => {
+            let count = 0;
+            while (count < text.length && !text[text.length - 1 - count]) {
+                count++;
+            }
+            return count;
+        };
+        while (kept.length > 0 && trailingBlanks(kept) > trailingBlanks(lines)) {
+            kept.pop();
+        }
+
+        return kept.join('\n');
+    }
+
+    /**
+     * Remove the callout toMarkdown shows the header and footer in. It's only a
+     * copy of them, so it's never written to the document's body.
+     */
+    static stripHeaderFooter(markdown: string): string {
+        const lines = markdown.split('\n');
+        const start = lines.indexOf(HEADER_FOOTER_CALLOUT);
+        if (start < 0) return markdown;
+
+        let end = start + 1;
+        while (end < lines.length && lines[end].startsWith('>')) {
+            end++;
+        }
+        // Along with the blank line after it, and the one in front when it ends the note
+        if (end < lines.length && !lines[end]) {
+            end++;
+        }
+        let from = start;
+        if (end === lines.length && from > 0 && !lines[from - 1]) {
+            from--;
+        }
+        lines.splice(from, end - from);
+        return lines.join('\n');
+    }
+
+    /**
+     * Text of the first tab's default header or footer on one line, with page
+     * numbers as `{{page}}` and `{{pages}}`
+     */
+    private static convertHeaderFooter(doc: GoogleDocsDocument, kind: 'header' | 'footer', options: DocsImportOptions): string {
+        const tab = this.getTabs(doc)[0];
+        const segments: Record<string, { content: DocumentContent[] }> | undefined = kind === 'header' ? tab.headers : tab.footers;
+        const defaultId = kind === 'header' ? tab.documentStyle?.defaultHeaderId : tab.documentStyle?.defaultFooterId;
+        const segment = segments && (defaultId ? segments[defaultId] : Object.values(segments)[0]);
+        if (!segment) return '';
+
+        return segment.content
+            .map(content => content.paragraph ? this.convertElements(content.paragraph.elements, options).trim() : '')
+            .filter(Boolean)
+            .join(' ');
+    }
+
+    /**
+     * Options under which links to this document's headings and its formula images convert back
+     */
+    private static withDocumentOptions(doc: GoogleDocsDocument, importOptions: DocsImportOptions): DocsImportOptions {
+        // Links to headings of this document become `[[#Heading]]`
+        const headings = new Map(this.getHeadings(doc).map(heading => [heading.headingId, heading.text] as [string, string]));
+        // Formula images become their LaTeX again
+        const math = this.getMathSources(doc);
+        return {
+            ...importOptions,
+            resolveInlineObject: (inlineObjectId) => math.get(inlineObjectId) ?? importOptions.resolveInlineObject?.(inlineObjectId) ?? null,
+            resolveLinkTarget: (url) => {
+                const headingLink = url.match(DOCS_HEADING_LINK);
+                if (headingLink) {
+                    const heading = headings.get(headingLink[1]);
+                    return heading ? `#${this.toHeadingLinkText(heading)}` : null;
+                }
+                // Left behind when a push stopped before the links were pointed at their headings
+                if (url.startsWith(HEADING_LINK_PREFIX)) {
+                    return `#${this.toHeadingLinkText(decodeURIComponent(url.slice(HEADING_LINK_PREFIX.length)))}`;
+                }
+                return importOptions.resolveLinkTarget?.(url) ?? null;
+            }
+        };
+    }
+
+    /**
+     * Append the Markdown for the document body to `lines` and return the lines
+     * each top-level block of the body became
+     */
+    private static convertBody(doc: GoogleDocsDocument, options: DocsImportOptions, lines: string[]): DocsBlock[] {
+        const blocks: DocsBlock[] = [];
+        // Item counts per list and nesting level, for numbering ordered items
+        const listCounters = new Map<string, number[]>();
+        const codeRanges = this.getCodeRanges(doc);
+        const calloutRanges = this.getCalloutRanges(doc);
+        const body = doc.body?.content || [];
+        let inList = false;
+        let inQuote = false;
+
+        for (let i = 0; i < body.length; i++) {
+            const content = body[i];
+            const first = i;
+            const from = lines.length;
+            const callout = this.getCalloutBlock(content, calloutRanges);
+            if (callout) {
+                let end = i + 1;
+                while (end < body.length && this.continuesCallout(body[end], callout, calloutRanges)) {
+                    end++;
+                }
+                if (lines[lines.length - 1]) {
+                    lines.push('');
+                }
+                lines.push(this.convertCallout(body.slice(i, end), callout, options));
+                lines.push('');
+                inList = false;
+                inQuote = false;
+                i = end - 1;
+            } else if (content.paragraph && this.isCodeParagraph(content)) {
+                // Group the following code paragraphs up to the start of another code block
+                let end = i + 1;
+                while (end < body.length && body[end].paragraph && this.isCodeParagraph(body[end]) && !codeRanges.has(body[end].startIndex)) {
+                    end++;
+                }
+                if (inList || inQuote) {
+                    lines.push('');
+                    inList = false;
+                    inQuote = false;
+                }
+                lines.push(this.convertCodeBlock(body.slice(i, end), codeRanges.get(content.startIndex) || ''));
+                lines.push('');
+                i = end - 1;
+            } else if (content.paragraph && this.isHorizontalRule(content)) {
+                // Blank lines keep `---` from turning the line above into a heading
+                if (lines[lines.length - 1]) {
+                    lines.push('');
+                }
+                lines.push('---');
+                lines.push('');
+                inList = false;
+                inQuote = false;
+            } else if (content.paragraph) {
+                const isListItem = !!content.paragraph.bullet;
+                const quoteDepth = isListItem ? 0 : this.getQuoteDepth(content);
+                let paragraphMd = isListItem
+                    ? this.convertListItem(content, doc, listCounters, options)
+                    : this.convertParagraph(content, options);
+                if (paragraphMd && quoteDepth > 0) {
+                    paragraphMd = '> '.repeat(quoteDepth) + paragraphMd;
+                }
+                if (paragraphMd) {
+                    // Without a blank line the paragraph would continue the last list item or quote
+                    if ((inList && !isListItem) || (inQuote && quoteDepth === 0)) {
+                        lines.push('');
+                    }
+                    inList = isListItem;
+                    inQuote = quoteDepth > 0;
+                    lines.push(paragraphMd);
+                }
+            } else if (content.tableOfContents) {
+                const entries = this.convertTableOfContents(content.tableOfContents.content, options);
+                if (entries) {
+                    if (lines[lines.length - 1]) {
+                        lines.push('');
+                    }
+                    lines.push(entries);
+                    lines.push('');
+                    inList = false;
+                    inQuote = false;
+                }
+            } else if (content.table) {
+                const tableMd = this.convertTable(content.table);
+                if (tableMd) {
+                    if (inList || inQuote) {
+                        lines.push('');
+                        inList = false;
+                        inQuote = false;
+                    }
+                    lines.push(tableMd);
+                    lines.push('');
+                }
+            }
+
+            if (!content.sectionBreak) {
+                blocks.push({
+                    from,
+                    to: lines.length,
+                    startIndex: body[first].startIndex,
+                    endIndex: body[i].endIndex,
+                    // Docs keeps a newline in front of a table of contents just like a table
+                    kind: content.paragraph?.bullet ? 'list' : content.table || content.tableOfContents ? 'table' : 'paragraph'
+                });
+            }
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Put `reference` after the first occurrence of the text a comment is anchored
+     * to (its first line, since Markdown lines don't span paragraphs). Returns
+     * false when the text isn't found, e.g. because formatting splits it up.
+     */
+    private static anchorComment(lines: string[], comment: DriveComment, reference: string): boolean {
+        const anchor = (comment.quotedFileContent?.value || '').split('\n').map(line => line.trim()).find(Boolean);
+        if (!anchor) return false;
+
+        // Skip the title
+        for (let i = 2; i < lines.length; i++) {
+            const at = lines[i].indexOf(anchor);
+            if (at >= 0) {
+                const end = at + anchor.length;
+                lines[i] = lines[i].slice(0, end) + reference + lines[i].slice(end);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * A comment and its replies on one line, for a footnote
+     */
+    private static formatComment(comment: DriveComment): string {
+        const replies = (comment.replies || []).filter(reply => !reply.deleted && reply.content);
+        return [comment, ...replies].map(entry => this.formatCommentEntry(entry)).join(' — ');
+    }
+
+    /**
+     * A comment in the Comments section: the text it is anchored to, then the
+     * comment and its replies as a list
+     */
+    private static convertComment(comment: DriveComment): string[] {
+        const lines: string[] = [];
+        const quoted = (comment.quotedFileContent?.value || '').split('\n').map(line => line.trim()).filter(Boolean);
+        for (const line of quoted) {
+            lines.push(`> ${line}`);
+        }
+        lines.push(`- ${this.formatCommentEntry(comment)}`);
+        for (const reply of comment.replies || []) {
+            if (reply.deleted || !reply.content) continue;
+            lines.push(`\t- ${this.formatCommentEntry(reply)}`);
+        }
+        return lines;
+    }
+
+    private static formatCommentEntry(entry: DriveCommentReply): string {
+        const author = entry.author?.displayName || 'Unknown';
+        const date = entry.createdTime ? ` (${entry.createdTime.slice(0, 10)})` : '';
+        return `**${author}**${date}: ${entry.content.replace(/\s*\n\s*/g, ' ').trim()}`;
+    }
+
+    /**
+     * Rules inserted in Docs are a horizontalRule element; exported ones an empty bordered paragraph
+     */
+    private static isHorizontalRule(content: DocumentContent): boolean {
+        const elements = content.paragraph?.elements || [];
+        if (elements.some(element => element.horizontalRule)) return true;
+
+        const empty = elements.every(element => !element.textRun || !element.textRun.content.trim());
+        const border = content.paragraph?.paragraphStyle?.borderBottom?.width?.magnitude;
+        return empty && !!border && border > 0;
+    }
+
+    /**
+     * Block quote nesting level of an indented, left-bordered body paragraph, or 0
+     */
+    private static getQuoteDepth(content: DocumentContent): number {
+        const style = content.paragraph?.paragraphStyle;
+        if (style?.namedStyleType && style.namedStyleType !== 'NORMAL_TEXT') return 0;
+
+        const indent = style?.indentStart?.magnitude || 0;
+        const border = style?.borderLeft?.width?.magnitude || 0;
+        if (indent <= 0 || border <= 0) return 0;
+        return Math.max(1, Math.round(indent / QUOTE_INDENT));
+    }
+
+    /**
+     * Footnote definitions in the order they are referenced, numbered like Docs shows them
+     */
+    private static convertFootnotes(doc: GoogleDocsDocument, options: DocsImportOptions): string[] {
+        const definitions: string[] = [];
+
+        for (const content of doc.body?.content || []) {
+            for (const element of content.paragraph?.elements || []) {
+                const reference = element.footnoteReference;
+                const footnote = reference && doc.footnotes?.[reference.footnoteId];
+                if (!reference || !footnote) continue;
+
+                const text = footnote.content
+                    .map(paragraph => paragraph.paragraph ? this.convertElements(paragraph.paragraph.elements, options).trim() : '')
+                    .filter(Boolean)
+                    .join(' ');
+                definitions.push(`[^${reference.footnoteNumber}]: ${text}`);
+            }
+        }
+
+        return definitions;
+    }
+
+    private static convertParagraph(content: DocumentContent, options: DocsImportOptions): string {
+        if (!content.paragraph?.elements) return '';
+
+        const style = content.paragraph.paragraphStyle?.namedStyleType;
+        const text = this.convertElements(content.paragraph.elements, options);
+
+        if (!text.trim()) return '';
+
+        // Apply heading style
+        switch (style) {
+            case 'HEADING_1':
+                return `# ${text}`;
+            case 'HEADING_2':
+                return `## ${text}`;
+            case 'HEADING_3':
+                return `### ${text}`;
+            case 'HEADING_4':
+                return `#### ${text}`;
+            case 'HEADING_5':
+                return `##### ${text}`;
+            case 'HEADING_6':
+                return `###### ${text}`;
+            case 'TITLE':
+                return `# ${text}`;
+            case 'SUBTITLE':
+                return `*${text}*`;
+            default:
+                return text;
+        }
+    }
+
+    /**
+     * Start index of each code block range, mapped to its language
+     */
+    private static getCodeRanges(doc: GoogleDocsDocument): Map<number, string> {
+        const ranges = new Map<number, string>();
+        for (const group of Object.values(doc.namedRanges || {})) {
+            if (!group.name.startsWith(CODE_RANGE_PREFIX)) continue;
+            const language = group.name.slice(CODE_RANGE_PREFIX.length);
+            for (const namedRange of group.namedRanges) {
+                for (const range of namedRange.ranges) {
+                    ranges.set(range.startIndex, language);
+                }
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * Start index of each callout range, mapped to its type and end
+     */
+    private static getCalloutRanges(doc: GoogleDocsDocument): Map<number, CalloutBlock> {
+        const ranges = new Map<number, CalloutBlock>();
+        for (const group of Object.values(doc.namedRanges || {})) {
+            if (!group.name.startsWith(CALLOUT_RANGE_PREFIX)) continue;
+            const match = group.name.slice(CALLOUT_RANGE_PREFIX.length).match(/^(.*?)([+-]?)$/)!;
+            for (const namedRange of group.namedRanges) {
+                for (const range of namedRange.ranges) {
+                    ranges.set(range.startIndex, { type: match[1], fold: match[2], endIndex: range.endIndex });
+                }
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * The callout starting at this paragraph: one with a named range, or else a
+     * paragraph shaded in a callout color that starts with a bold title
+     */
+    private static getCalloutBlock(content: DocumentContent, calloutRanges: Map<number, CalloutBlock>): CalloutBlock | null {
+        if (!content.paragraph) return null;
+
+        const ranged = calloutRanges.get(content.startIndex);
+        if (ranged) return ranged;
+
+        const type = this.getCalloutColorType(content);
+        const first = content.paragraph.elements.find(el => el.textRun?.content.trim());
+        if (!type || !first?.textRun?.textStyle?.bold) return null;
+        return { type, fold: '', endIndex: null };
+    }
+
+    private static continuesCallout(content: DocumentContent, callout: CalloutBlock, calloutRanges: Map<number, CalloutBlock>): boolean {
+        if (!content.paragraph || calloutRanges.has(content.startIndex)) return false;
+        if (callout.endIndex !== null) {
+            return content.startIndex < callout.endIndex;
+        }
+        return this.getCalloutColorType(content) === callout.type;
+    }
+
+    /**
+     * First callout type whose shading matches the paragraph's
+     */
+    private static getCalloutColorType(content: DocumentContent): string | null {
+        const color = content.paragraph?.paragraphStyle?.shading?.backgroundColor?.color?.rgbColor;
+        if (!color) return null;
+
+        const rgb: Rgb = [color.red || 0, color.green || 0, color.blue || 0];
+        for (const [type, colors] of Object.entries(CALLOUT_COLORS)) {
+            if (colors.shading.every((value, i) => Math.abs(value - rgb[i]) < 0.01)) {
+                return type;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Render a callout's paragraphs as `> [!type]` lines. The first paragraph is
+     * the title, left out when it is just the type's default title.
+     */
+    private static convertCallout(paragraphs: DocumentContent[], callout: CalloutBlock, options: DocsImportOptions): string {
+        const [titleParagraph, ...rest] = paragraphs;
+        // The whole title is bold, which isn't part of the Markdown
+        const titleElements = (titleParagraph.paragraph?.elements || []).map(el => el.textRun
+            ? { ...el, textRun: { ...el.textRun, textStyle: { ...el.textRun.textStyle, bold: false } } }
+            : el);
+        const title = this.convertElements(titleElements, options).trim();
+
+        const header = `> [!${callout.type}]${callout.fold}`;
+        const lines = [title && title !== this.getCalloutTitle(callout.type) ? `${header} ${title}` : header];
+        for (const content of rest) {
+            const text = this.convertParagraph(content, options);
+            lines.push(text ? `> ${text}` : '>');
+        }
+        // Blank lines at the end of the block were only spacing
+        while (lines.length > 1 && lines[lines.length - 1] === '>') {
+            lines.pop();
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Title Obsidian shows for a callout without one, e.g. `Warning`
+     */
+    private static getCalloutTitle(type: string): string {
+        return type.charAt(0).toUpperCase() + type.slice(1).toLowerCase();
+    }
+
+    /**
+     * A paragraph belongs to a code block when all of its text, newline included, is monospace
+     */
+    private static isCodeParagraph(content: DocumentContent): boolean {
+        const elements = content.paragraph?.elements || [];
+        return !content.paragraph?.bullet && elements.length > 0 && elements.every(el =>
+            !!el.textRun && this.isMonospace(el)
+        );
+    }
+
+    private static isMonospace(element: ParagraphElement): boolean {
+        const font = element.textRun?.textStyle?.weightedFontFamily?.fontFamily;
+        return !!font && MONOSPACE_FONT.test(font);
+    }
+
+    private static convertCodeBlock(paragraphs: DocumentContent[], language: string): string {
+        const code = paragraphs.map(content =>
+            (content.paragraph?.elements || [])
+                .map(el => el.textRun?.content || '')
+                .join('')
+                .replace(/\n$/, '')
+                .replace(/\u000b/g, '\n')
+        );
+
+        // A fence longer than any backtick run inside the code
+        const longestRun = Math.max(2, ...code.map(line => Math.max(0, ...(line.match(/`+/g) || []).map(run => run.length))));
+        const fence = '`'.repeat(longestRun + 1);
+
+        return [fence + language, ...code, fence].join('\n');
+    }
+
+    /**
+     * Convert a bulleted paragraph to a `-`, `1.` or `- [ ]` item indented by its nesting level
+     */
+    private static convertListItem(
+        content: DocumentContent,
+        doc: GoogleDocsDocument,
+        listCounters: Map<string, number[]>,
+        options: DocsImportOptions
+    ): string {
+        const paragraph = content.paragraph!;
+        const { listId, nestingLevel = 0 } = paragraph.bullet!;
+        const level = doc.lists?.[listId]?.listProperties?.nestingLevels?.[nestingLevel];
+        const kind = this.getListKind(doc.lists?.[listId], nestingLevel);
+
+        // Counting restarts for deeper levels whenever a shallower item appears
+        const counters = listCounters.get(listId) || [];
+        counters.length = nestingLevel + 1;
+        counters[nestingLevel] = (counters[nestingLevel] ?? (level?.startNumber ?? 1) - 1) + 1;
+        listCounters.set(listId, counters);
+
+        const elements = paragraph.elements || [];
+        // Checked items are struck through; the checkbox state itself is not exposed by the API
+        const checked = kind === 'CHECKBOX' && elements.some(el => el.textRun?.content.trim())
+            && elements.every(el => !el.textRun?.content.trim() || el.textRun.textStyle?.strikethrough);
+        const text = this.convertElements(elements, options, checked).trim();
+
+        const indent = '\t'.repeat(nestingLevel);
+        switch (kind) {
+            case 'NUMBER':
+                return `${indent}${counters[nestingLevel]}. ${text}`;
+            case 'CHECKBOX':
+                return `${indent}- [${checked ? 'x' : ' '}] ${text}`;
+            default:
+                return `${indent}- ${text}`;
+        }
+    }
+
+    private static getListKind(list: DocsList | undefined, nestingLevel: number): ListType {
+        const level = list?.listProperties?.nestingLevels?.[nestingLevel];
+        if (!level) return 'BULLET';
+        if (level.glyphType && ORDERED_GLYPH_TYPES.includes(level.glyphType)) return 'NUMBER';
+        // Checklist levels have neither a numbering glyph type nor a bullet symbol
+        if (!level.glyphSymbol) return 'CHECKBOX';
+        return 'BULLET';
+    }
+
+    /**
+     * Render a paragraph's text runs with inline Markdown formatting
+     */
+    private static convertElements(elements: ParagraphElement[], options: DocsImportOptions, ignoreStrikethrough: boolean = false): string {
+        let text = '';
+
+        for (const element of elements) {
+            if (element.inlineObjectElement) {
+                text += options.resolveInlineObject?.(element.inlineObjectElement.inlineObjectId) || '';
+                continue;
+            }
+
+            if (element.autoText) {
+                text += element.autoText.type === 'PAGE_COUNT' ? '{{pages}}' : '{{page}}';
+                continue;
+            }
+
+            if (element.footnoteReference) {
+                text += `[^${element.footnoteReference.footnoteNumber}]`;
+                continue;
+            }
+
+            if (element.textRun) {
+                let elementText = element.textRun.content || '';
+
+                if (this.isMonospace(element) && elementText.trim()) {
+                    text += this.wrapInlineCode(elementText);
+                    continue;
+                }
+
+                // Apply text formatting
+                const textStyle = element.textRun.textStyle;
+                if (textStyle) {
+                    if (textStyle.bold) {
+                        elementText = this.wrapMarkers(elementText, '**');
+                    }
+                    if (textStyle.italic) {
+                        elementText = this.wrapMarkers(elementText, '*');
+                    }
+                    if (textStyle.strikethrough && !ignoreStrikethrough) {
+                        elementText = this.wrapMarkers(elementText, '~~');
+                    }
+                    const headingId = textStyle.link?.headingId || textStyle.link?.heading?.id;
+                    const url = textStyle.link?.url || (headingId ? `#heading=${headingId}` : '');
+                    if (url) {
+                        elementText = this.convertLink(elementText, url, options);
+                    }
+                }
+
+                if (options.suggestions) {
+                    const marked = elementText;
+                    if (element.textRun.suggestedDeletionIds?.length) {
+                        if (!textStyle?.strikethrough || ignoreStrikethrough) {
+                            elementText = this.wrapMarkers(elementText, '~~');
+                        }
+                    } else if (element.textRun.suggestedInsertionIds?.length) {
+                        elementText = this.wrapMarkers(elementText, '==');
+                    }
+                    if (elementText !== marked) {
+                        options.onSuggestion?.(elementText.trim());
+                    }
+                }
+
+                text += elementText;
+            }
+        }
+
+        // Remove trailing newline
+        return text.replace(/\n$/, '');
+    }
+
+    /**
+     * Links that resolve to a note become wikilinks again, other links Markdown links
+     */
+    private static convertLink(text: string, url: string, options: DocsImportOptions): string {
+        const target = options.resolveLinkTarget?.(url);
+        if (!target) {
+            return this.wrapMarkers(text, '[', `](${url})`);
+        }
+
+        const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        const label = match[2];
+        if (!label) return text;
+
+        // `[[#Heading]]` shows just the heading
+        const basename = target.startsWith('#') ? target.slice(1) : target.split('/').pop();
+        const link = label === target || label === basename ? `[[${target}]]` : `[[${target}|${label}]]`;
+        return `${match[1]}${link}${match[3]}`;
+    }
+
+    /**
+     * Wrap text in Markdown markers, keeping surrounding whitespace outside them
+     * since `** bold**` is not bold
+     */
+    private static wrapMarkers(text: string, open: string, close: string = open): string {
+        const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        if (!match[2]) return text;
+        return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+    }
+
+    /**
+     * Wrap a monospace run in enough backticks, keeping surrounding whitespace outside
+     */
+    private static wrapInlineCode(text: string): string {
+        const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        const code = match[2];
+        const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+        const ticks = '`'.repeat(longestRun + 1);
+        // Code starting or ending with a backtick needs a space inside the delimiters
+        const pad = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+        return `${match[1]}${ticks}${pad}${code}${pad}${ticks}${match[3]}`;
+    }
+
+    private static convertTable(table: { rows: number; columns: number; tableRows: TableRow[] }): string {
+        const rows: string[] = [];
+
+        for (let i = 0; i < table.tableRows.length; i++) {
+            const tableRow = table.tableRows[i];
+            const cells: string[] = [];
+
+            for (const cell of tableRow.tableCells) {
+                let cellText = '';
+                if (cell.content) {
+                    for (const content of cell.content) {
+                        if (content.paragraph?.elements) {
+                            for (const el of content.paragraph.elements) {
+                                if (el.textRun?.content) {
+                                    cellText += el.textRun.content.replace(/\n/g, ' ').trim();
+                                }
+                            }
+                        }
+                    }
+                }
+                // Escape pipe characters in cell content
+                cells.push(cellText.replace(/\|/g, '\\|'));
+            }
+
+            rows.push(`| ${cells.join(' | ')} |`);
+
+            // Add header separator after first row, keeping the header cells' alignment
+            if (i === 0) {
+                const separators = tableRow.tableCells.map(cell => {
+                    switch (cell.content?.[0]?.paragraph?.paragraphStyle?.alignment) {
+                        case 'CENTER': return ':---:';
+                        case 'END': return '---:';
+                        default: return '---';
+                    }
+                });
+                rows.push(`| ${separators.join(' | ')} |`);
+            }
+        }
+
+        return rows.join('\n');
+    }
+
+    /**
+     * Convert Markdown to Google Docs batch update requests
+     */
+    static markdownToDocsRequests(markdown: string, exportOptions: DocsExportOptions = {}): DocsExport {
+        const builder = new DocsRequestBuilder(1, undefined, exportOptions.tabId); // Start after the document's initial newline
+        const lines = markdown.split('\n');
+
+        let headingLinks = false;
+        const options = this.prepareExportOptions(lines, exportOptions, () => headingLinks = true);
+        this.writeLines(builder, lines, 0, lines.length, options);
+
+        return { requests: builder.requests, footnotes: builder.footnotes, headingLinks };
+    }
+
+    /**
+     * Requests that turn the document into `markdown` while leaving alone the
+     * blocks that already match, so the comments, suggestions and formatting
+     * collaborators added to them survive. Blocks are compared as Markdown, so
+     * `importOptions` should be the ones notes are imported with.
+     */
+    static markdownToDocsUpdate(doc: GoogleDocsDocument, markdown: string, exportOptions: DocsExportOptions = {}, importOptions: DocsImportOptions = {}): DocsExport {
+        // The document doesn't know which file an image came from, so images only compare by position
+        const docLines: string[] = [];
+        const docOptions = this.withDocumentOptions(doc, { ...importOptions, resolveInlineObject: () => OBJECT_PLACEHOLDER });
+        let oldBlocks = this.groupBlocks(this.convertBody(doc, docOptions, docLines)).map(block => ({
+            ...block,
+            key: this.blockKey(docLines.slice(block.from, block.to))
+        }));
+
+        const lines = this.withoutTitleLine(doc, docLines, markdown.split('\n'));
+        let headingLinks = false;
+        const options = this.prepareExportOptions(lines, { ...exportOptions, tabId: doc.tabId }, () => headingLinks = true);
+        let newBlocks = this.groupBlocks(this.writeLines(new DocsRequestBuilder(1), lines, 0, lines.length, options)).map((block, i) => {
+            const source = lines.slice(block.from, block.to);
+            let key = this.blockKey(source.map(line => line.replace(IMAGE_EMBED, OBJECT_PLACEHOLDER)));
+            // Footnote text isn't part of the block, so blocks with footnotes are always rewritten
+            if (source.some(line => FOOTNOTE_REFERENCE.test(line))) {
+                key += `\n${OBJECT_PLACEHOLDER}${i}`;
+            }
+            return { ...block, key };
+        });
+
+        // Empty paragraphs at the end are left in place, which keeps the body's last newline out of the way
+        let tailStart: number | null = null;
+        while (oldBlocks.length > 0 && oldBlocks[oldBlocks.length - 1].key === '' && oldBlocks[oldBlocks.length - 1].kind === 'paragraph') {
+            tailStart = oldBlocks.pop()!.startIndex;
+        }
+        while (newBlocks.length > 0 && newBlocks[newBlocks.length - 1].key === '') {
+            newBlocks.pop();
+        }
+        // Blank lines don't survive the round trip either, so other empty paragraphs are no change
+        // and are only deleted or written along with the blocks around them
+        oldBlocks = oldBlocks.filter(block => block.key !== '');
+        newBlocks = newBlocks.filter(block => block.key !== '');
+
+        const body = doc.body?.content || [];
+        const bodyEnd = body.length > 0 ? body[body.length - 1].endIndex : 2;
+        const edits = new DocsRequestBuilder(1, undefined, doc.tabId);
+        const footnotes: string[] = [];
+
+        // Back to front, so the indexes of earlier blocks stay valid
+        const changes = this.diffBlocks(oldBlocks.map(block => block.key), newBlocks.map(block => block.key));
+        for (const change of changes.reverse()) {
+            // Content can't be inserted at a table's start, so a table without a paragraph in front is rewritten too
+            if (change.oldTo < oldBlocks.length && oldBlocks[change.oldTo].kind === 'table' && change.newTo < newBlocks.length) {
+                change.oldTo++;
+                change.newTo++;
+            }
+
+            let start: number;
+            if (change.oldFrom < oldBlocks.length) {
+                start = oldBlocks[change.oldFrom].startIndex;
+            } else if (tailStart !== null) {
+                start = tailStart;
+            } else {
+                // Add an empty paragraph at the end to insert in front of
+                edits.insertText(bodyEnd - 1, '\n');
+                start = bodyEnd;
+                tailStart = bodyEnd;
+                edits.resetParagraph(start, start + 1);
+            }
+
+            if (change.oldTo > change.oldFrom) {
+                let end = oldBlocks[change.oldTo - 1].endIndex;
+                // The body's last newline can't be deleted; the paragraph it leaves behind is made plain
+                const last = end >= bodyEnd;
+                if (last) {
+                    end = bodyEnd - 1;
+                }
+                if (end > start) {
+                    edits.deleteContent(start, end);
+                }
+                if (last) {
+                    edits.resetParagraph(start, start + 1);
+                }
+            }
+
+            if (change.newTo > change.newFrom) {
+                const builder = new DocsRequestBuilder(start, undefined, doc.tabId);
+                builder.resetStyles = true;
+                this.writeLines(builder, lines, newBlocks[change.newFrom].from, newBlocks[change.newTo - 1].to, options);
+                edits.requests.push(...builder.requests);
+                footnotes.push(...builder.footnotes);
+            }
+        }
+
+        return { requests: edits.requests, footnotes, headingLinks };
+    }
+
+    /**
+     * Leave out the `# Title` line toMarkdown puts first, and the blank lines
+     * after it, since it isn't part of the body. When the body itself starts with
+     * the title heading, as exported notes make it, a single one is the body's.
+     */
+    private static withoutTitleLine(doc: GoogleDocsDocument, docLines: string[], lines: string[]): string[] {
+        const title = `# ${doc.title}`.trim();
+        if (lines[0]?.trim() !== title) return lines;
+
+        const next = lines.findIndex((line, i) => i > 0 && line.trim() !== '');
+        const rest = next < 0 ? [] : lines.slice(next);
+        const bodyTitle = docLines.find(line => line.trim() !== '')?.trim() === title;
+        if (bodyTitle && rest[0]?.trim() !== title) return lines;
+
+        return rest;
+    }
+
+    /**
+     * Merge the items of a list into one block, since Docs numbers a list as a
+     * whole, and an empty paragraph into the table after it, since Docs puts one
+     * in front of every table it inserts
+     */
+    private static groupBlocks<T extends MarkdownBlock & { startIndex?: number; endIndex?: number }>(blocks: T[]): T[] {
+        const grouped: T[] = [];
+        for (const block of blocks) {
+            const previous = grouped[grouped.length - 1];
+            const listItem = previous?.kind === 'list' && block.kind === 'list';
+            const tableSpacer = block.kind === 'table' && previous?.kind === 'paragraph' && previous.from === previous.to && previous.startIndex !== undefined;
+            if (listItem || tableSpacer) {
+                grouped[grouped.length - 1] = { ...previous, to: block.to, endIndex: block.endIndex, kind: tableSpacer ? 'paragraph' : 'list' };
+            } else {
+                grouped.push(block);
+            }
+        }
+        return grouped;
+    }
+
+    /**
+     * Compare blocks ignoring differences the round trip through Docs introduces:
+     * blank lines around a block, trailing spaces, list numbering and tabs
+     */
+    private static blockKey(lines: string[]): string {
+        return lines
+            .map(line => line
+                .replace(/^\t+/, tabs => '    '.repeat(tabs.length))
+                .replace(/^(\s*)\d+[.)]\s/, '$11. ')
+                .replace(/\s+$/, ''))
+            .join('\n')
+            .replace(/^\n+|\n+$/g, '');
+    }
+
+    /**
+     * Ranges of blocks that differ between two lists of block keys, from their
+     * longest common subsequence
+     */
+    private static diffBlocks(oldKeys: string[], newKeys: string[]): { oldFrom: number; oldTo: number; newFrom: number; newTo: number }[] {
+        const n = oldKeys.length;
+        const m = newKeys.length;
+        // lengths[i * (m + 1) + j]: common subsequence length of oldKeys[i..] and newKeys[j..]
+        const lengths = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i * (m + 1) + j] = oldKeys[i] === newKeys[j]
+                    ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+            }
+        }
+
+        const changes: { oldFrom: number; oldTo: number; newFrom: number; newTo: number }[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && oldKeys[i] === newKeys[j]) {
+                i++;
+                j++;
+                continue;
+            }
+            const change = { oldFrom: i, oldTo: i, newFrom: j, newTo: j };
+            while ((i < n || j < m) && !(i < n && j < m && oldKeys[i] === newKeys[j])) {
+                if (j >= m || (i < n && lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+                    i++;
+                } else {
+                    j++;
+                }
+            }
+            change.oldTo = i;
+            change.newTo = j;
+            changes.push(change);
+        }
+        return changes;
+    }
+
+    /**
+     * Export options for a note made of `lines`, under which links to its own
+     * headings, footnotes and formulas resolve. `onHeadingLink` is called when
+     * a link needs `headingLinkRequests()`.
+     */
+    private static prepareExportOptions(lines: string[], exportOptions: DocsExportOptions, onHeadingLink: () => void): DocsExportOptions {
+        // Definitions may come after their references, usually at the end of the note
+        const definitions = this.readFootnoteDefinitions(lines);
+        return {
+            ...exportOptions,
+            resolveWikilink: (linkpath, heading) => {
+                if (!linkpath && heading) {
+                    onHeadingLink();
+                    return HEADING_LINK_PREFIX + encodeURIComponent(heading);
+                }
+                return exportOptions.resolveWikilink?.(linkpath, heading) ?? null;
+            },
+            resolveFootnote: (label) => definitions.get(label) ?? null,
+            resolveMath: (latex, display) => {
+                const source = display ? `$$${latex}$$` : `$${latex}$`;
+                if (MATH_RANGE_PREFIX.length + source.length > MAX_RANGE_NAME) return null;
+                return exportOptions.resolveMath?.(latex, display) ?? null;
+            }
+        };
+    }
+
+    /**
+     * Insert the blocks of `lines[from, to)` at the builder's index and return
+     * the lines each block was made from. Footnote definitions make no block.
+     */
+    private static writeLines(builder: DocsRequestBuilder, lines: string[], from: number, to: number, options: DocsExportOptions): MarkdownBlock[] {
+        const blocks: MarkdownBlock[] = [];
+
+        // Consecutive list items of one kind become a single Docs list
+        let listRun: { preset: string; start: number; tabs: number } | null = null;
+        const indentStack: number[] = [];
+
+        const flushList = () => {
+            if (listRun) {
+                builder.createBullets(listRun.start, builder.index, listRun.preset, listRun.tabs);
+                listRun = null;
+            }
+        };
+
+        for (let i = from; i < to; i++) {
+            const fence = this.readCodeFence(lines, i);
+            if (fence) {
+                flushList();
+                indentStack.length = 0;
+                this.insertCodeBlock(builder, fence);
+                blocks.push({ from: i, to: i + fence.lineCount, kind: 'paragraph' });
+                i += fence.lineCount - 1;
+                continue;
+            }
+
+            const table = this.readTable(lines, i);
+            if (table) {
+                flushList();
+                indentStack.length = 0;
+                this.insertTable(builder, table, options);
+                blocks.push({ from: i, to: i + table.lineCount, kind: 'table' });
+                i += table.lineCount - 1;
+                continue;
+            }
+
+            const mathBlock = this.readMathBlock(lines, i);
+            const mathImage = mathBlock && options.resolveMath?.(mathBlock.latex, true);
+            if (mathBlock && mathImage) {
+                flushList();
+                indentStack.length = 0;
+                this.insertMathBlock(builder, mathBlock, mathImage);
+                blocks.push({ from: i, to: i + mathBlock.lineCount, kind: 'paragraph' });
+                i += mathBlock.lineCount - 1;
+                continue;
+            }
+
+            if (FOOTNOTE_DEFINITION.test(lines[i])) {
+                // Written into the footnote at its reference instead
+                continue;
+            }
+
+            if (HORIZONTAL_RULE.test(lines[i])) {
+                flushList();
+                indentStack.length = 0;
+                const { start, end } = builder.insertParagraph('');
+                builder.updateParagraphStyle(start, end, { borderBottom: RULE_BORDER }, 'borderBottom');
+                blocks.push({ from: i, to: i + 1, kind: 'paragraph' });
+                continue;
+            }
+
+            const callout = this.readCallout(lines, i);
+            if (callout) {
+                flushList();
+                indentStack.length = 0;
+                this.insertCallout(builder, callout, options);
+                blocks.push({ from: i, to: i + callout.lineCount, kind: 'paragraph' });
+                i += callout.lineCount - 1;
+                continue;
+            }
+
+            const quote = lines[i].match(BLOCKQUOTE);
+            if (quote) {
+                flushList();
+                indentStack.length = 0;
+                const indent = { magnitude: QUOTE_INDENT * (quote[1].match(/>/g) || []).length, unit: 'PT' };
+                const { start, end } = this.insertInlineParagraph(builder, quote[2], options);
+                builder.updateParagraphStyle(
+                    start,
+                    end,
+                    { indentStart: indent, indentFirstLine: indent, borderLeft: QUOTE_BORDER },
+                    'indentStart,indentFirstLine,borderLeft'
+                );
+                blocks.push({ from: i, to: i + 1, kind: 'paragraph' });
+                continue;
+            }
+
+            const { text, style, list } = this.parseLine(lines[i]);
+
+            if (!list) {
+                flushList();
+                indentStack.length = 0;
+                blocks.push({ from: i, to: i + 1, kind: 'paragraph' });
+
+                if (!text) {
+                    // Empty line
+                    builder.insertParagraph('');
+                    continue;
+                }
+
+                this.insertInlineParagraph(builder, text, options, '', style || undefined);
+                continue;
+            }
+
+            blocks.push({ from: i, to: i + 1, kind: 'list' });
+            const preset = LIST_PRESETS[list.type];
+            if (listRun && listRun.preset !== preset) {
+                flushList();
+            }
+            if (!listRun) {
+                listRun = { preset, start: builder.index, tabs: 0 };
+            }
+
+            const level = this.getListLevel(indentStack, list.indent);
+            const { start, end } = this.insertInlineParagraph(builder, text, options, '\t'.repeat(level));
+            listRun.tabs += level;
+
+            const textStart = start + level;
+            if (list.checked) {
+                // The API cannot tick a checklist item, so done items are struck through like Docs shows them
+                builder.updateTextStyle(textStart, end - 1, { strikethrough: true }, 'strikethrough');
+            }
+        }
+        flushList();
+
+        return blocks;
+    }
+
+    /**
+     * Requests that write a footnote's text into the footnote `footnoteId`, which
+     * Docs creates holding a space and a newline
+     */
+    static footnoteRequests(footnoteId: string, markdown: string, options: DocsExportOptions = {}): any[] {
+        const builder = new DocsRequestBuilder(1, footnoteId, options.tabId);
+        // Footnotes can't contain footnotes
+        const inline = MarkdownInline.parse(markdown, { ...options, resolveFootnote: undefined });
+
+        builder.insertText(1, inline.text);
+        this.applyInlineStyles(builder, inline.spans, 1);
+        this.insertInlineObjects(builder, inline.objects, 1);
+        return builder.requests;
+    }
+
+    /**
+     * Read a `$$` math block starting at `start`, either on one line or with the
+     * delimiters on lines of their own
+     */
+    private static readMathBlock(lines: string[], start: number): MathBlock | null {
+        const open = lines[start].match(/^\s*\$\$(.*)$/);
+        if (!open) return null;
+
+        const first = open[1].trim();
+        if (first.endsWith('$$')) {
+            const latex = first.slice(0, -2).trim();
+            return latex ? { latex, lineCount: 1 } : null;
+        }
+
+        const body = first ? [first] : [];
+        for (let end = start + 1; end < lines.length; end++) {
+            const line = lines[end].trim();
+            if (line.endsWith('$$')) {
+                body.push(line.slice(0, -2));
+                const latex = body.join('\n').trim();
+                return latex ? { latex, lineCount: end - start + 1 } : null;
+            }
+            body.push(lines[end]);
+        }
+        return null;
+    }
+
+    /**
+     * Insert a display formula as a centered paragraph holding its image
+     */
+    private static insertMathBlock(builder: DocsRequestBuilder, block: MathBlock, image: MathImage) {
+        const { start } = builder.insertParagraph('');
+        builder.insertInlineImage(start, image.uri, image.width, image.height);
+        builder.updateParagraphStyle(start, builder.index, { alignment: 'CENTER' }, 'alignment');
+        builder.createNamedRange(`${MATH_RANGE_PREFIX}$$${block.latex}$$`, start, start + 1);
+    }
+
+    /**
+     * LaTeX of all formulas outside code blocks, e.g. for rendering them before
+     * the document is built
+     */
+    static findMath(markdown: string): { latex: string; display: boolean }[] {
+        const formulas = new Map<string, { latex: string; display: boolean }>();
+        const collect = (latex: string, display: boolean): MathImage | null => {
+            formulas.set(`${display ? '$$' : '$'}${latex}`, { latex, display });
+            return null;
+        };
+        const lines = markdown.split('\n');
+
+        for (let i = 0; i < lines.length; i++) {
+            const fence = this.readCodeFence(lines, i);
+            if (fence) {
+                i += fence.lineCount - 1;
+                continue;
+            }
+            const block = this.readMathBlock(lines, i);
+            if (block) {
+                collect(block.latex, true);
+                i += block.lineCount - 1;
+                continue;
+            }
+            MarkdownInline.parse(lines[i], { resolveMath: collect });
+        }
+
+        return Array.from(formulas.values());
+    }
+
+    /**
+     * `[^label]: text` lines outside code blocks, by label
+     */
+    private static readFootnoteDefinitions(lines: string[]): Map<string, string> {
+        const definitions = new Map<string, string>();
+
+        for (let i = 0; i < lines.length; i++) {
+            const fence = this.readCodeFence(lines, i);
+            if (fence) {
+                i += fence.lineCount - 1;
+                continue;
+            }
+            const match = lines[i].match(FOOTNOTE_DEFINITION);
+            if (match && !definitions.has(match[1])) {
+                definitions.set(match[1], match[2].trim());
+            }
+        }
+
+        return definitions;
+    }
+
+    /**
+     * Read a fenced code block starting at `start`; an unclosed fence runs to the end
      */
-    static toMarkdown(doc: GoogleDocsDocument): string {
-        const lines: string[] = [];
-        const title = doc.title;
+    private static readCodeFence(lines: string[], start: number): CodeFence | null {
+        const open = lines[start].match(/^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/);
+        if (!open) return null;
 
-        // Add title as H1
-        lines.push(`# ${title}`);
-        lines.push('');
-
-        if (!doc.body?.content) {
-            return lines.join('\n');
+        const marker = open[1];
+        const close = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+        let end = start + 1;
+        while (end < lines.length && !close.test(lines[end])) {
+            end++;
         }
 
-        for (const content of doc.body.content) {
-            if (content.paragraph) {
-                const paragraphMd = this.convertParagraph(content);
-                if (paragraphMd) {
-                    lines.push(paragraphMd);
-                }
-            } else if (content.table) {
-                const tableMd = this.convertTable(content.table);
-                if (tableMd) {
-                    lines.push(tableMd);
-                    lines.push('');
-                }
-            }
+        return {
+            language: open[2],
+            lines: lines.slice(start + 1, end),
+            lineCount: Math.min(end + 1, lines.length) - start
+        };
+    }
+
+    /**
+     * Insert a code block as shaded monospace paragraphs, marked with a named range for its language
+     */
+    private static insertCodeBlock(builder: DocsRequestBuilder, fence: CodeFence) {
+        const start = builder.index;
+        for (const line of fence.lines) {
+            builder.insertParagraph(line);
+        }
+        // An empty block still needs a paragraph to carry the style
+        if (fence.lines.length === 0) {
+            builder.insertParagraph('');
         }
 
-        return lines.join('\n');
+        // Styling the newlines too keeps empty lines monospace, so they stay part of the block on import
+        builder.updateTextStyle(start, builder.index, { weightedFontFamily: { fontFamily: CODE_FONT } }, 'weightedFontFamily');
+        builder.updateParagraphStyle(start, builder.index, { shading: CODE_SHADING }, 'shading');
+        builder.createNamedRange(CODE_RANGE_PREFIX + fence.language, start, builder.index);
+        builder.resetTextStyleAfter('weightedFontFamily');
     }
 
-    private static convertParagraph(content: DocumentContent): string {
-        if (!content.paragraph?.elements) return '';
+    /**
+     * Read a callout starting at `start`: its header line and the quoted lines after it
+     */
+    private static readCallout(lines: string[], start: number): Callout | null {
+        const header = lines[start].match(CALLOUT_START);
+        if (!header) return null;
 
-        const style = content.paragraph.paragraphStyle?.namedStyleType;
-        let text = '';
+        const content: string[] = [];
+        let end = start + 1;
+        while (end < lines.length && BLOCKQUOTE.test(lines[end])) {
+            content.push(lines[end].replace(/^ {0,3}>[ \t]?/, ''));
+            end++;
+        }
 
-        for (const element of content.paragraph.elements) {
-            if (element.textRun) {
-                let elementText = element.textRun.content || '';
+        return {
+            type: header[1].toLowerCase(),
+            fold: header[2],
+            title: header[3].trim(),
+            lines: content,
+            lineCount: end - start
+        };
+    }
 
-                // Apply text formatting
-                const textStyle = element.textRun.textStyle;
-                if (textStyle) {
-                    if (textStyle.bold) {
-                        elementText = `**${elementText.trim()}**`;
-                    }
-                    if (textStyle.italic) {
-                        elementText = `*${elementText.trim()}*`;
-                    }
-                    if (textStyle.strikethrough) {
-                        elementText = `~~${elementText.trim()}~~`;
-                    }
-                    if (textStyle.link?.url) {
-                        elementText = `[${elementText.trim()}](${textStyle.link.url})`;
-                    }
-                }
+    /**
+     * Insert a callout as a bold title paragraph and its content, shaded and
+     * bordered in the type's colors
+     */
+    private static insertCallout(builder: DocsRequestBuilder, callout: Callout, options: DocsExportOptions) {
+        const start = builder.index;
+        const colors = CALLOUT_COLORS[CALLOUT_ALIASES[callout.type] || callout.type] || CALLOUT_COLORS.note;
 
-                text += elementText;
-            }
+        const title = this.insertInlineParagraph(builder, callout.title || this.getCalloutTitle(callout.type), options);
+        builder.updateTextStyle(title.start, title.end - 1, { bold: true }, 'bold');
+        for (const line of callout.lines) {
+            this.insertInlineParagraph(builder, line, options);
         }
 
-        // Remove trailing newline
-        text = text.replace(/\n$/, '');
-
-        if (!text.trim()) return '';
+        const rgb = (color: Rgb) => ({ color: { rgbColor: { red: color[0], green: color[1], blue: color[2] } } });
+        builder.updateParagraphStyle(start, builder.index, {
+            shading: { backgroundColor: rgb(colors.shading) },
+            borderLeft: {
+                color: rgb(colors.border),
+                width: { magnitude: 3, unit: 'PT' },
+                padding: { magnitude: 6, unit: 'PT' },
+                dashStyle: 'SOLID'
+            }
+        }, 'shading,borderLeft');
+        builder.createNamedRange(CALLOUT_RANGE_PREFIX + callout.type + callout.fold, start, builder.index);
+    }
 
-        // Apply heading style
-        switch (style) {
-            case 'HEADING_1':
-                return `# ${text}`;
-            case 'HEADING_2':
-                return `## ${text}`;
-            case 'HEADING_3':
-                return `### ${text}`;
-            case 'HEADING_4':
-                return `#### ${text}`;
-            case 'HEADING_5':
-                return `##### ${text}`;
-            case 'HEADING_6':
-                return `###### ${text}`;
-            case 'TITLE':
-                return `# ${text}`;
-            case 'SUBTITLE':
-                return `*${text}*`;
-            default:
-                return text;
+    /**
+     * Read a Markdown table (header row, alignment row, body rows) starting at `start`
+     */
+    private static readTable(lines: string[], start: number): MarkdownTable | null {
+        const headerLine = lines[start];
+        const alignLine = lines[start + 1];
+        if (!headerLine?.includes('|') || alignLine === undefined || !TABLE_ALIGN_ROW.test(alignLine)) {
+            return null;
         }
-    }
 
-    private static convertTable(table: { rows: number; columns: number; tableRows: TableRow[] }): string {
-        const rows: string[] = [];
+        const header = this.splitTableRow(headerLine);
+        const alignments = this.splitTableRow(alignLine).map((cell): TableAlignment => {
+            const left = cell.startsWith(':');
+            const right = cell.endsWith(':');
+            return left && right ? 'CENTER' : right ? 'END' : left ? 'START' : null;
+        });
+        if (alignments.length !== header.length) return null;
 
-        for (let i = 0; i < table.tableRows.length; i++) {
-            const tableRow = table.tableRows[i];
-            const cells: string[] = [];
+        const rows = [header];
+        let end = start + 2;
+        while (end < lines.length && lines[end].includes('|') && lines[end].trim()) {
+            rows.push(this.splitTableRow(lines[end]));
+            end++;
+        }
 
-            for (const cell of tableRow.tableCells) {
-                let cellText = '';
-                if (cell.content) {
-                    for (const content of cell.content) {
-                        if (content.paragraph?.elements) {
-                            for (const el of content.paragraph.elements) {
-                                if (el.textRun?.content) {
-                                    cellText += el.textRun.content.replace(/\n/g, ' ').trim();
-                                }
-                            }
-                        }
-                    }
-                }
-                // Escape pipe characters in cell content
-                cells.push(cellText.replace(/\|/g, '\\|'));
-            }
+        return { rows, alignments, lineCount: end - start };
+    }
 
-            rows.push(`| ${cells.join(' | ')} |`);
+    /**
+     * Split a table row into trimmed cells, honouring escaped pipes
+     */
+    private static splitTableRow(line: string): string[] {
+        let row = line.trim();
+        if (row.startsWith('|')) row = row.slice(1);
+        if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
 
-            // Add header separator after first row
-            if (i === 0) {
-                rows.push(`| ${Array(cells.length).fill('---').join(' | ')} |`);
+        const cells: string[] = [];
+        let cell = '';
+        for (let i = 0; i < row.length; i++) {
+            if (row[i] === '\\' && row[i + 1] === '|') {
+                cell += '|';
+                i++;
+            } else if (row[i] === '|') {
+                cells.push(cell.trim());
+                cell = '';
+            } else {
+                cell += row[i];
             }
         }
+        cells.push(cell.trim());
 
-        return rows.join('\n');
+        return cells;
     }
 
     /**
-     * Convert Markdown to Google Docs batch update requests
+     * Insert a native table and fill its cells. Cells are filled from the last one
+     * backwards so the precomputed index of every earlier cell stays valid.
      */
-    static markdownToDocsRequests(markdown: string): any[] {
-        const requests: any[] = [];
-        const lines = markdown.split('\n');
-        let insertIndex = 1; // Start after the document's initial newline
+    private static insertTable(builder: DocsRequestBuilder, table: MarkdownTable, options: DocsExportOptions) {
+        const columns = table.alignments.length;
+        const tableStart = builder.insertTable(table.rows.length, columns);
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const { text, style, isList, listType } = this.parseLine(line);
-
-            if (!text && !isList) {
-                // Empty line
-                requests.push({
-                    insertText: {
-                        location: { index: insertIndex },
-                        text: '\n'
-                    }
-                });
-                insertIndex += 1;
-                continue;
-            }
+        for (let r = table.rows.length - 1; r >= 0; r--) {
+            for (let c = columns - 1; c >= 0; c--) {
+                const inline = MarkdownInline.parse(table.rows[r][c] || '', options);
+                const text = inline.text;
+                const index = DocsRequestBuilder.cellIndex(tableStart, columns, r, c);
+                const alignment = table.alignments[c];
 
-            // Insert the text
-            const textToInsert = text + '\n';
-            requests.push({
-                insertText: {
-                    location: { index: insertIndex },
-                    text: textToInsert
+                builder.insertText(index, text);
+                if (alignment) {
+                    builder.updateParagraphStyle(index, index + text.length + 1, { alignment }, 'alignment');
                 }
-            });
 
-            // Apply paragraph style if it's a heading
-            if (style) {
-                requests.push({
-                    updateParagraphStyle: {
-                        range: {
-                            startIndex: insertIndex,
-                            endIndex: insertIndex + textToInsert.length
-                        },
-                        paragraphStyle: {
-                            namedStyleType: style
-                        },
-                        fields: 'namedStyleType'
-                    }
-                });
+                if (r === 0) {
+                    builder.updateTextStyle(index, index + text.length, { bold: true }, 'bold');
+                }
+                this.applyInlineStyles(builder, inline.spans, index);
+                this.insertInlineObjects(builder, inline.objects, index);
             }
-
-            // Apply text formatting (bold, italic, etc.)
-            const formattingRequests = this.createFormattingRequests(text, insertIndex);
-            requests.push(...formattingRequests);
-
-            insertIndex += textToInsert.length;
         }
-
-        return requests;
     }
 
-    private static parseLine(line: string): { text: string; style: string | null; isList: boolean; listType: string | null } {
+    private static parseLine(line: string): { text: string; style: string | null; list: ListLine | null } {
         // Check for headings
         const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
         if (headingMatch) {
@@ -203,101 +1666,414 @@ export class DocsConverter {
             return {
                 text: headingMatch[2],
                 style: headingStyles[level],
-                isList: false,
-                listType: null
+                list: null
+            };
+        }
+
+        // Check for task list items before plain bullets
+        const taskMatch = line.match(/^([ \t]*)[-*+]\s+\[([ xX])\](?:\s+(.*))?$/);
+        if (taskMatch) {
+            return {
+                text: taskMatch[3] || '',
+                style: null,
+                list: { type: 'CHECKBOX', indent: this.getIndentWidth(taskMatch[1]), checked: taskMatch[2] !== ' ' }
             };
         }
 
         // Check for unordered list
-        const ulMatch = line.match(/^[\-\*]\s+(.+)$/);
-        if (ulMatch) {
+        const ulMatch = line.match(/^([ \t]*)[-*+](?:\s+(.*))?$/);
+        if (ulMatch && !/^[ \t]*([-*])[ \t]*\1[ \t]*\1/.test(line)) {
             return {
-                text: '• ' + ulMatch[1],
+                text: ulMatch[2] || '',
                 style: null,
-                isList: true,
-                listType: 'BULLET'
+                list: { type: 'BULLET', indent: this.getIndentWidth(ulMatch[1]), checked: false }
             };
         }
 
         // Check for ordered list
-        const olMatch = line.match(/^\d+\.\s+(.+)$/);
+        const olMatch = line.match(/^([ \t]*)\d+[.)](?:\s+(.*))?$/);
         if (olMatch) {
             return {
-                text: olMatch[1],
+                text: olMatch[2] || '',
                 style: null,
-                isList: true,
-                listType: 'NUMBER'
+                list: { type: 'NUMBER', indent: this.getIndentWidth(olMatch[1]), checked: false }
             };
         }
 
         return {
             text: line,
             style: null,
-            isList: false,
-            listType: null
+            list: null
         };
     }
 
-    private static createFormattingRequests(text: string, startIndex: number): any[] {
-        const requests: any[] = [];
+    /**
+     * Nesting level of a list item from its indentation, relative to the items above it
+     */
+    private static getListLevel(indentStack: number[], indent: number): number {
+        while (indentStack.length > 0 && indentStack[indentStack.length - 1] > indent) {
+            indentStack.pop();
+        }
+        if (indentStack.length === 0 || indentStack[indentStack.length - 1] < indent) {
+            indentStack.push(indent);
+        }
+        return Math.min(indentStack.length - 1, MAX_LIST_LEVEL);
+    }
+
+    private static getIndentWidth(indent: string): number {
+        return indent.replace(/\t/g, '    ').length;
+    }
+
+    /**
+     * Insert a paragraph of inline Markdown with its markers turned into text styles.
+     * `prefix` (list tabs) is inserted before the text and left unstyled.
+     */
+    private static insertInlineParagraph(
+        builder: DocsRequestBuilder,
+        markdown: string,
+        options: DocsExportOptions,
+        prefix: string = '',
+        namedStyleType?: string
+    ): { start: number; end: number } {
+        const inline = MarkdownInline.parse(markdown, options);
+        const range = builder.insertParagraph(prefix + inline.text, namedStyleType);
+        this.applyInlineStyles(builder, inline.spans, range.start + prefix.length);
+        this.insertInlineObjects(builder, inline.objects, range.start + prefix.length);
+        // Every image and footnote reference takes up an index of its own
+        return { start: range.start, end: range.end + inline.objects.length };
+    }
 
-        // Find bold text (**text** or __text__)
-        const boldRegex = /\*\*([^*]+)\*\*|__([^_]+)__/g;
-        let match;
-        while ((match = boldRegex.exec(text)) !== null) {
-            const boldText = match[1] || match[2];
-            const textStartIndex = text.indexOf(match[0]);
-            requests.push({
-                updateTextStyle: {
-                    range: {
-                        startIndex: startIndex + textStartIndex,
-                        endIndex: startIndex + textStartIndex + boldText.length + 4
-                    },
-                    textStyle: {
-                        bold: true
-                    },
-                    fields: 'bold'
+    /**
+     * Insert images and footnote references into text that is already styled,
+     * last first so the offsets of the earlier ones stay valid
+     */
+    private static insertInlineObjects(builder: DocsRequestBuilder, objects: InlineObject[], offset: number) {
+        for (let i = objects.length - 1; i >= 0; i--) {
+            const object = objects[i];
+            if (object.kind === 'image') {
+                builder.insertInlineImage(offset + object.offset, object.uri, object.width, object.height);
+                if (object.math) {
+                    builder.createNamedRange(MATH_RANGE_PREFIX + object.math, offset + object.offset, offset + object.offset + 1);
                 }
-            });
+            } else {
+                builder.createFootnote(offset + object.offset, object.content);
+            }
+        }
+    }
+
+    /**
+     * Targets of all image embeds outside code blocks, e.g. for uploading them
+     * before the document is built
+     */
+    static findImageTargets(markdown: string): string[] {
+        const targets = new Set<string>();
+        const lines = markdown.split('\n');
+        const collect: InlineOptions = {
+            resolveImage: (target) => {
+                targets.add(target);
+                return null;
+            }
+        };
+
+        for (let i = 0; i < lines.length; i++) {
+            const fence = this.readCodeFence(lines, i);
+            if (fence) {
+                i += fence.lineCount - 1;
+                continue;
+            }
+            MarkdownInline.parse(lines[i], collect);
+        }
+
+        return Array.from(targets);
+    }
+
+    private static applyInlineStyles(builder: DocsRequestBuilder, spans: InlineSpan[], offset: number) {
+        for (const span of spans) {
+            const textStyle: any = {};
+            const fields: string[] = [];
+
+            if (span.style.bold) {
+                textStyle.bold = true;
+                fields.push('bold');
+            }
+            if (span.style.italic) {
+                textStyle.italic = true;
+                fields.push('italic');
+            }
+            if (span.style.strikethrough) {
+                textStyle.strikethrough = true;
+                fields.push('strikethrough');
+            }
+            if (span.style.code) {
+                textStyle.weightedFontFamily = { fontFamily: CODE_FONT };
+                fields.push('weightedFontFamily');
+            }
+            if (span.style.link) {
+                textStyle.link = { url: span.style.link };
+                fields.push('link');
+            }
+
+            builder.updateTextStyle(offset + span.start, offset + span.end, textStyle, fields.join(','));
+        }
+    }
+
+    /**
+     * Markdown source of each formula image, by inline object id. Formulas are
+     * known by their named range, or by alt text that is a formula.
+     */
+    static getMathSources(doc: GoogleDocsDocument): Map<string, string> {
+        const rangeSources = new Map<number, string>();
+        for (const group of Object.values(doc.namedRanges || {})) {
+            if (!group.name.startsWith(MATH_RANGE_PREFIX)) continue;
+            for (const namedRange of group.namedRanges) {
+                for (const range of namedRange.ranges) {
+                    rangeSources.set(range.startIndex, group.name.slice(MATH_RANGE_PREFIX.length));
+                }
+            }
         }
 
-        // Find italic text (*text* or _text_)
-        const italicRegex = /(?<!\*)\*([^*]+)\*(?!\*)|(?<!_)_([^_]+)_(?!_)/g;
-        while ((match = italicRegex.exec(text)) !== null) {
-            const italicText = match[1] || match[2];
-            const textStartIndex = text.indexOf(match[0]);
-            requests.push({
-                updateTextStyle: {
-                    range: {
-                        startIndex: startIndex + textStartIndex,
-                        endIndex: startIndex + textStartIndex + italicText.length + 2
-                    },
-                    textStyle: {
-                        italic: true
-                    },
-                    fields: 'italic'
+        const sources = new Map<string, string>();
+        const visit = (contents: DocumentContent[]) => {
+            for (const content of contents) {
+                for (const row of content.table?.tableRows || []) {
+                    for (const cell of row.tableCells) {
+                        visit(cell.content || []);
+                    }
                 }
-            });
+                for (const element of content.paragraph?.elements || []) {
+                    const objectId = element.inlineObjectElement?.inlineObjectId;
+                    if (!objectId) continue;
+
+                    const description = doc.inlineObjects?.[objectId]?.inlineObjectProperties?.embeddedObject?.description?.trim();
+                    const source = rangeSources.get(element.startIndex)
+                        || (description && /^\$[\s\S]+\$$/.test(description) ? description : null);
+                    if (source) {
+                        sources.set(objectId, source);
+                    }
+                }
+            }
+        };
+        visit(doc.body?.content || []);
+
+        return sources;
+    }
+
+    /**
+     * Render the entries of a Docs table of contents as a list of heading links
+     */
+    private static convertTableOfContents(entries: DocumentContent[], options: DocsImportOptions): string {
+        return entries
+            .map(content => content.paragraph ? this.convertElements(content.paragraph.elements, options) : '')
+            // Entries without links end in a tab and the page number
+            .map(text => text.replace(/\t\d*\s*$/, '').trim())
+            .filter(Boolean)
+            .map(text => `- ${text}`)
+            .join('\n');
+    }
+
+    /**
+     * Headings of the document body in order. Docs gives every heading an id.
+     */
+    private static getHeadings(doc: GoogleDocsDocument): DocsHeading[] {
+        const headings: DocsHeading[] = [];
+        for (const content of doc.body?.content || []) {
+            const style = content.paragraph?.paragraphStyle;
+            const level = style?.namedStyleType ? HEADING_LEVELS[style.namedStyleType] : undefined;
+            if (!level || !style?.headingId) continue;
+
+            const text = content.paragraph!.elements.map(el => el.textRun?.content || '').join('').replace(/\n$/, '').trim();
+            if (text) {
+                headings.push({ headingId: style.headingId, text, level });
+            }
         }
+        return headings;
+    }
 
+    /**
+     * Link to a heading; headings in other than the first tab need the tab's id
+     */
+    private static headingLink(headingId: string, tabId?: string): any {
+        return tabId ? { heading: { id: headingId, tabId } } : { headingId };
+    }
+
+    /**
+     * Heading text as written in a wikilink, which can't contain `#`, `|`, `^`, `[` or `]`
+     */
+    private static toHeadingLinkText(heading: string): string {
+        return heading.replace(/[#|^\[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+
+    /**
+     * Key for matching a `[[#Heading]]` link to a heading, which Obsidian does case-insensitively
+     */
+    private static headingKey(heading: string): string {
+        return this.toHeadingLinkText(heading).toLowerCase();
+    }
+
+    /**
+     * Requests that point the `[[#Heading]]` links written by `markdownToDocsRequests()`
+     * at the ids Docs gave the headings. Links to missing headings are removed.
+     */
+    static headingLinkRequests(doc: GoogleDocsDocument): any[] {
+        const requests: any[] = [];
+        for (const tab of this.getTabs(doc)) {
+            requests.push(...this.tabHeadingLinkRequests(tab));
+        }
         return requests;
     }
 
+    private static tabHeadingLinkRequests(doc: GoogleDocsDocument): any[] {
+        const headingIds = new Map<string, string>();
+        for (const heading of this.getHeadings(doc)) {
+            const key = this.headingKey(heading.text);
+            if (!headingIds.has(key)) {
+                headingIds.set(key, heading.headingId);
+            }
+        }
+
+        const builder = new DocsRequestBuilder(1, undefined, doc.tabId);
+        const visit = (contents: DocumentContent[]) => {
+            for (const content of contents) {
+                for (const row of content.table?.tableRows || []) {
+                    for (const cell of row.tableCells) {
+                        visit(cell.content || []);
+                    }
+                }
+                for (const element of content.paragraph?.elements || []) {
+                    const url = element.textRun?.textStyle?.link?.url;
+                    if (!url?.startsWith(HEADING_LINK_PREFIX)) continue;
+
+                    const headingId = headingIds.get(this.headingKey(decodeURIComponent(url.slice(HEADING_LINK_PREFIX.length))));
+                    const textStyle = headingId ? { link: this.headingLink(headingId, doc.tabId) } : {};
+                    builder.updateTextStyle(element.startIndex, element.endIndex, textStyle, 'link');
+                }
+            }
+        };
+        visit(doc.body?.content || []);
+
+        return builder.requests;
+    }
+
+    /**
+     * Requests that insert a linked list of the document's headings at its start.
+     * The API can't insert a Docs table of contents, so this builds the same thing
+     * from paragraphs.
+     */
+    static tableOfContentsRequests(doc: GoogleDocsDocument, title: string = 'Table of Contents'): any[] {
+        // Goes in the first tab, listing its headings
+        const tab = this.getTabs(doc)[0];
+        const headings = this.getHeadings(tab);
+        if (headings.length === 0) return [];
+
+        const builder = new DocsRequestBuilder(1, undefined, tab.tabId);
+        const topLevel = Math.min(...headings.map(heading => heading.level));
+
+        // Inserted paragraphs take over the style of the paragraph they are inserted into
+        const titleRange = builder.insertParagraph(title, 'NORMAL_TEXT');
+        const listStart = builder.index;
+        const links: { start: number; end: number; headingId: string }[] = [];
+        let tabs = 0;
+        for (const heading of headings) {
+            const level = Math.min(heading.level - topLevel, MAX_LIST_LEVEL);
+            const { start, end } = builder.insertParagraph('\t'.repeat(level) + heading.text, 'NORMAL_TEXT');
+            links.push({ start: start + level, end: end - 1, headingId: heading.headingId });
+            tabs += level;
+        }
+        const listEnd = builder.index;
+        const spacer = builder.insertParagraph('', 'NORMAL_TEXT');
+
+        builder.updateTextStyle(1, builder.index, {}, 'bold,italic,strikethrough,link,weightedFontFamily');
+        builder.updateParagraphStyle(1, builder.index, {}, 'shading,borderLeft,borderBottom,indentStart,indentFirstLine');
+        builder.deleteBullets(titleRange.start, titleRange.end);
+        builder.deleteBullets(spacer.start, spacer.end);
+        builder.updateTextStyle(titleRange.start, titleRange.end - 1, { bold: true }, 'bold');
+        for (const link of links) {
+            builder.updateTextStyle(link.start, link.end, { link: this.headingLink(link.headingId, tab.tabId) }, 'link');
+        }
+        builder.createBullets(listStart, listEnd, LIST_PRESETS.BULLET, tabs);
+
+        return builder.requests;
+    }
+
+    /**
+     * The content of each tab of a document read with its tabs, child tabs
+     * following their parent, as documents of their own. A document without
+     * tabs is returned as it is; a single tab keeps the document's title.
+     */
+    static getTabs(doc: GoogleDocsDocument): GoogleDocsDocument[] {
+        if (!doc.tabs || doc.tabs.length === 0) return [doc];
+
+        const tabs: GoogleDocsDocument[] = [];
+        const visit = (tab: DocsTab) => {
+            tabs.push({
+                ...tab.documentTab,
+                documentId: doc.documentId,
+                title: tab.tabProperties.title,
+                tabId: tab.tabProperties.tabId,
+                body: tab.documentTab?.body || { content: [] }
+            });
+            (tab.childTabs || []).forEach(visit);
+        };
+        doc.tabs.forEach(visit);
+
+        if (tabs.length === 1) {
+            tabs[0].title = doc.title;
+        }
+        return tabs;
+    }
+
+    /**
+     * Split a note at its H1 headings (outside code blocks), e.g. into one
+     * document tab each. Content before the first H1 becomes a section without
+     * a title; a note without H1 headings is a single such section.
+     * With `titles`, only H1 headings naming one of these, in order, start a
+     * section, as when splitting a note imported from tabs whose content has
+     * H1 headings of its own. Titles can be skipped but not repeated.
+     */
+    static splitSections(markdown: string, titles?: string[]): { title: string | null; markdown: string }[] {
+        const lines = markdown.split('\n');
+        const sections: { title: string | null; lines: string[] }[] = [{ title: null, lines: [] }];
+        let nextTitle = 0;
+
+        for (let i = 0; i < lines.length; i++) {
+            const fence = this.readCodeFence(lines, i);
+            if (fence) {
+                sections[sections.length - 1].lines.push(...lines.slice(i, i + fence.lineCount));
+                i += fence.lineCount - 1;
+                continue;
+            }
+
+            const heading = lines[i].match(/^#[ \t]+(.*?)[ \t]*#*[ \t]*$/);
+            const titleIndex = heading && titles ? titles.findIndex((title, j) => j >= nextTitle && title.trim() === heading[1]) : -1;
+            if (heading && (!titles || titleIndex >= 0)) {
+                sections.push({ title: heading[1], lines: [] });
+                nextTitle = titleIndex + 1;
+            } else {
+                sections[sections.length - 1].lines.push(lines[i]);
+            }
+        }
+
+        // Leave out blank lines around sections and an empty start
+        const trimmed = sections.map(section => ({ title: section.title, markdown: section.lines.join('\n').replace(/^\s*\n|\s+$/g, '') }));
+        if (trimmed.length > 1 && !trimmed[0].markdown.trim()) {
+            trimmed.shift();
+        }
+        return trimmed;
+    }
+
     /**
      * Extract plain text from Google Docs document
      */
     static extractPlainText(doc: GoogleDocsDocument): string {
         const lines: string[] = [];
 
-        if (!doc.body?.content) {
-            return '';
-        }
-
-        for (const content of doc.body.content) {
-            if (content.paragraph?.elements) {
-                for (const element of content.paragraph.elements) {
-                    if (element.textRun?.content) {
-                        lines.push(element.textRun.content);
+        for (const tab of this.getTabs(doc)) {
+            for (const content of tab.body?.content || []) {
+                if (content.paragraph?.elements) {
+                    for (const element of content.paragraph.elements) {
+                        if (element.textRun?.content) {
+                            lines.push(element.textRun.content);
+                        }
                     }
                 }
             }
@@ -0,0 +1,243 @@
+/**
+ * Accumulates Google Docs batchUpdate requests while text is inserted front to
+ * back, keeping track of the index where the next insertion goes.
+ */
+export class DocsRequestBuilder {
+    requests: any[] = [];
+    /** Index the next paragraph is inserted at */
+    index: number;
+    /**
+     * Content of each footnote created, in request order. Footnote ids are only
+     * known from the batchUpdate replies, so the text is written in a second batch.
+     */
+    footnotes: string[] = [];
+    /**
+     * Clear the paragraph and text style of every inserted paragraph before
+     * styling it. Needed when inserting in front of existing content, whose
+     * style new paragraphs would otherwise take on.
+     */
+    resetStyles = false;
+    /** Segment written to, e.g. a footnote; the body when unset */
+    private segmentId?: string;
+    /** Tab written to; the first tab when unset */
+    private tabId?: string;
+    /** Text style fields to clear on the next paragraph, which would otherwise inherit them */
+    private pendingTextReset: string | null = null;
+
+    constructor(startIndex: number = 1, segmentId?: string, tabId?: string) {
+        this.index = startIndex;
+        this.segmentId = segmentId;
+        this.tabId = tabId;
+    }
+
+    /**
+     * Insert `text` as a paragraph and return the range it occupies (including its newline)
+     */
+    insertParagraph(text: string, namedStyleType?: string): { start: number; end: number } {
+        const start = this.index;
+        const content = text + '\n';
+
+        this.requests.push({
+            insertText: {
+                location: this.location(start),
+                text: content
+            }
+        });
+        this.index += content.length;
+
+        if (this.resetStyles) {
+            this.resetParagraph(start, this.index);
+            this.updateTextStyle(start, this.index, {}, '*');
+        }
+
+        if (this.pendingTextReset) {
+            this.updateTextStyle(start, this.index, {}, this.pendingTextReset);
+            this.pendingTextReset = null;
+        }
+
+        if (namedStyleType) {
+            this.requests.push({
+                updateParagraphStyle: {
+                    range: this.range(start, this.index),
+                    paragraphStyle: { namedStyleType },
+                    fields: 'namedStyleType'
+                }
+            });
+        }
+
+        return { start, end: this.index };
+    }
+
+    /**
+     * Insert text at an index before the running end (e.g. inside a table cell)
+     */
+    insertText(index: number, text: string) {
+        if (!text) return;
+        this.requests.push({
+            insertText: {
+                location: this.location(index),
+                text
+            }
+        });
+        this.index += text.length;
+    }
+
+    /**
+     * Insert an image fetched from `uri` at an index before the running end.
+     * An image takes up one index. Sizes are in pixels; Docs measures in points.
+     */
+    insertInlineImage(index: number, uri: string, width?: number, height?: number) {
+        const request: any = {
+            location: this.location(index),
+            uri
+        };
+        if (width || height) {
+            request.objectSize = {};
+            if (width) request.objectSize.width = { magnitude: width * 0.75, unit: 'PT' };
+            if (height) request.objectSize.height = { magnitude: height * 0.75, unit: 'PT' };
+        }
+        this.requests.push({ insertInlineImage: request });
+        this.index += 1;
+    }
+
+    /**
+     * Insert a footnote reference at an index before the running end. The
+     * reference takes up one index; `content` is kept for filling the footnote.
+     */
+    createFootnote(index: number, content: string) {
+        this.requests.push({
+            createFootnote: {
+                location: this.location(index)
+            }
+        });
+        this.footnotes.push(content);
+        this.index += 1;
+    }
+
+    /**
+     * Insert an empty table at the running index and return the index of its
+     * start. Docs puts a newline in front of the table, so it starts one past
+     * the insertion point; every cell holds a single empty paragraph.
+     */
+    insertTable(rows: number, columns: number): number {
+        this.requests.push({
+            insertTable: {
+                location: this.location(this.index),
+                rows,
+                columns
+            }
+        });
+        const tableStart = this.index + 1;
+        if (this.resetStyles) {
+            this.resetParagraph(this.index, tableStart);
+        }
+        // Table start, then per row a row marker and a marker plus newline per cell
+        this.index = tableStart + 1 + rows * (2 * columns + 1);
+        return tableStart;
+    }
+
+    /**
+     * Index of the empty paragraph in cell (row, column) of a table that has no text yet
+     */
+    static cellIndex(tableStart: number, columns: number, row: number, column: number): number {
+        return tableStart + 3 + row * (2 * columns + 1) + 2 * column;
+    }
+
+    updateParagraphStyle(startIndex: number, endIndex: number, paragraphStyle: any, fields: string) {
+        this.requests.push({
+            updateParagraphStyle: {
+                range: this.range(startIndex, endIndex),
+                paragraphStyle,
+                fields
+            }
+        });
+    }
+
+    updateTextStyle(startIndex: number, endIndex: number, textStyle: any, fields: string) {
+        if (endIndex <= startIndex) return;
+        this.requests.push({
+            updateTextStyle: {
+                range: this.range(startIndex, endIndex),
+                textStyle,
+                fields
+            }
+        });
+    }
+
+    /**
+     * Clear `fields` on the next inserted paragraph. Text typed after a styled
+     * paragraph picks up its style, which is wrong after e.g. a code block.
+     */
+    resetTextStyleAfter(fields: string) {
+        this.pendingTextReset = fields;
+    }
+
+    createNamedRange(name: string, startIndex: number, endIndex: number) {
+        this.requests.push({
+            createNamedRange: {
+                name,
+                range: this.range(startIndex, endIndex)
+            }
+        });
+    }
+
+    /**
+     * Turn the paragraphs in the range into a list. Docs derives each item's
+     * nesting level from its leading tabs and removes them, so `tabs` (the number
+     * of tabs inserted in the range) is taken off the running index.
+     */
+    createBullets(startIndex: number, endIndex: number, bulletPreset: string, tabs: number) {
+        this.requests.push({
+            createParagraphBullets: {
+                range: this.range(startIndex, endIndex),
+                bulletPreset
+            }
+        });
+        this.index -= tabs;
+    }
+
+    /**
+     * Make the paragraphs in the range plain body text
+     */
+    resetParagraph(startIndex: number, endIndex: number) {
+        this.deleteBullets(startIndex, endIndex);
+        this.updateParagraphStyle(startIndex, endIndex, { namedStyleType: 'NORMAL_TEXT' }, '*');
+    }
+
+    deleteBullets(startIndex: number, endIndex: number) {
+        this.requests.push({
+            deleteParagraphBullets: {
+                range: this.range(startIndex, endIndex)
+            }
+        });
+    }
+
+    /**
+     * Delete existing content. Doesn't move the running index.
+     */
+    deleteContent(startIndex: number, endIndex: number) {
+        this.requests.push({
+            deleteContentRange: {
+                range: this.range(startIndex, endIndex)
+            }
+        });
+    }
+
+    private location(index: number): any {
+        return this.inSegment({ index });
+    }
+
+    private range(startIndex: number, endIndex: number): any {
+        return this.inSegment({ startIndex, endIndex });
+    }
+
+    private inSegment(position: any): any {
+        if (this.segmentId) {
+            position.segmentId = this.segmentId;
+        }
+        if (this.tabId) {
+            position.tabId = this.tabId;
+        }
+        return position;
+    }
+}
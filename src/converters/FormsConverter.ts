@@ -1,5 +1,19 @@
 import { GoogleForm, FormItem, FormResponse, Question, ChoiceQuestion } from '../services/FormsService';
 
+export interface MarkdownFormQuestion {
+    title: string;
+    required: boolean;
+    /** Type label as written by toMarkdown(), e.g. "Multiple Choice" */
+    type: string;
+    options: string[];
+}
+
+export interface MarkdownForm {
+    title: string;
+    description: string;
+    questions: MarkdownFormQuestion[];
+}
+
 export class FormsConverter {
     /**
      * Convert Google Form to Markdown
@@ -171,6 +185,71 @@ export class FormsConverter {
         return { type: 'Unknown', options: [] };
     }
 
+    /**
+     * Parse Markdown in the shape written by toMarkdown() back into form info and questions.
+     * Only items with a "Type:" line are treated as questions.
+     */
+    static parseMarkdown(markdown: string): MarkdownForm {
+        const form: MarkdownForm = { title: '', description: '', questions: [] };
+        const lines = markdown.split('\n');
+        let current: MarkdownFormQuestion | null = null;
+        let inHeader = true;
+
+        const finishQuestion = () => {
+            if (current && current.type) {
+                form.questions.push(current);
+            }
+            current = null;
+        };
+
+        for (const rawLine of lines) {
+            const line = rawLine.trim();
+
+            const titleMatch = line.match(/^#\s+(.+)$/);
+            if (titleMatch && !form.title) {
+                form.title = titleMatch[1].trim();
+                continue;
+            }
+
+            if (inHeader) {
+                if (line === '---' || line.startsWith('## ')) {
+                    inHeader = false;
+                } else if (!form.description && /^\*[^*].*\*$/.test(line)) {
+                    form.description = line.slice(1, -1);
+                }
+                continue;
+            }
+
+            const questionMatch = line.match(/^###\s+\d+\.\s+(.+?)(\s+\*\*\(Required\)\*\*)?$/);
+            if (questionMatch) {
+                finishQuestion();
+                current = {
+                    title: questionMatch[1].trim(),
+                    required: !!questionMatch[2],
+                    type: '',
+                    options: []
+                };
+                continue;
+            }
+
+            if (!current) continue;
+
+            const typeMatch = line.match(/^Type:\s*(.+)$/);
+            if (typeMatch) {
+                current.type = typeMatch[1].trim();
+                continue;
+            }
+
+            const optionMatch = line.match(/^-\s+\[[ xX]?\]\s+(.+)$/);
+            if (optionMatch) {
+                current.options.push(optionMatch[1].trim());
+            }
+        }
+
+        finishQuestion();
+        return form;
+    }
+
     /**
      * Convert form responses to Markdown table
      */
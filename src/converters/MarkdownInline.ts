@@ -0,0 +1,551 @@
+export interface InlineStyle {
+    bold?: boolean;
+    italic?: boolean;
+    strikethrough?: boolean;
+    code?: boolean;
+    /** Link target */
+    link?: string;
+}
+
+/**
+ * A styled stretch of the plain text. Offsets are UTF-16 code units, which is
+ * what JavaScript strings and the Docs API both count in.
+ */
+export interface InlineSpan {
+    start: number;
+    end: number;
+    style: InlineStyle;
+}
+
+/**
+ * An embedded image, placed before the character at `offset` of the text
+ */
+export interface InlineImage {
+    kind: 'image';
+    offset: number;
+    uri: string;
+    /** Display size in pixels from `|300` or `|300x200` */
+    width?: number;
+    height?: number;
+    /** Source of a formula rendered as this image, e.g. `$x^2$` */
+    math?: string;
+}
+
+/** A formula rendered to an image */
+export interface MathImage {
+    uri: string;
+    /** Display size in pixels */
+    width: number;
+    height: number;
+}
+
+/**
+ * A `[^label]` footnote reference, placed before the character at `offset`
+ */
+export interface InlineFootnote {
+    kind: 'footnote';
+    offset: number;
+    /** Inline Markdown of the footnote's definition */
+    content: string;
+}
+
+/** Things that are not text but sit between its characters */
+export type InlineObject = InlineImage | InlineFootnote;
+
+export interface InlineText {
+    /** Text with all Markdown markers removed */
+    text: string;
+    /** Non-overlapping styled spans, in order */
+    spans: InlineSpan[];
+    /** Images and footnote references in order of their offset */
+    objects: InlineObject[];
+}
+
+export interface InlineOptions {
+    /**
+     * Link target for a `[[wikilink]]`, or null to render only its text.
+     * `heading` is the part after `#`, if any.
+     */
+    resolveWikilink?: (linkpath: string, heading: string | null) => string | null;
+    /**
+     * URI an image can be fetched from for `![[target]]` or `![alt](target)`,
+     * or null to keep the embed as literal text
+     */
+    resolveImage?: (target: string) => string | null;
+    /** Definition of the footnote `[^label]`, or null to keep the reference as text */
+    resolveFootnote?: (label: string) => string | null;
+    /** Image of the LaTeX in `$...$` or `$$...$$`, or null to keep the source as text */
+    resolveMath?: (latex: string, display: boolean) => MathImage | null;
+}
+
+interface ParseState extends InlineText {
+    options: InlineOptions;
+}
+
+/** Style a matched pair of delimiter runs applies */
+type EmphasisStyle = 'bold' | 'italic' | 'strikethrough';
+
+/**
+ * A run of `*`, `_` or `~` that may open or close emphasis
+ */
+interface DelimiterRun {
+    ch: string;
+    /** Length of the run in the source */
+    length: number;
+    /** Characters no pair has used; these stay text */
+    remaining: number;
+    canOpen: boolean;
+    canClose: boolean;
+    /** Styles the run opens and closes, innermost first */
+    opens: EmphasisStyle[];
+    closes: EmphasisStyle[];
+}
+
+/** Part of a range: a delimiter run, or content that writes itself in the style around it */
+type InlineNode = DelimiterRun | ((style: InlineStyle) => void);
+
+interface LinkMatch {
+    textStart: number;
+    textEnd: number;
+    url: string;
+    /** Index just past the closing parenthesis */
+    end: number;
+}
+
+/** Characters that a backslash turns into literal text */
+const ESCAPABLE = /[\\`*_{}\[\]()#+\-.!~|<>=$]/;
+const AUTOLINK = /^<(https?:\/\/[^>\s]+)>/;
+const BARE_URL = /^https?:\/\/[^\s<>]+/;
+/** Embed size suffix, e.g. `300` or `300x200` */
+const IMAGE_SIZE = /^(\d+)(?:x(\d+))?$/;
+const FOOTNOTE_REF = /^\[\^([^\]\s]+)\]/;
+
+/**
+ * Tokenizer for inline Markdown (emphasis, strikethrough, code and links) that
+ * separates the visible text from the styles applied to it.
+ */
+export class MarkdownInline {
+    static parse(source: string, options: InlineOptions = {}): InlineText {
+        const state: ParseState = { text: '', spans: [], objects: [], options };
+        this.parseRange(source, 0, source.length, {}, state);
+        return { text: state.text, spans: state.spans, objects: state.objects };
+    }
+
+    /**
+     * Parse `from`..`to` in two passes: read it into content and delimiter runs,
+     * then pair the runs up and write the content in the styles they apply
+     */
+    private static parseRange(src: string, from: number, to: number, style: InlineStyle, out: ParseState) {
+        const nodes: InlineNode[] = [];
+        const text = (value: string, extra: InlineStyle = {}) => nodes.push(current => this.addText(out, value, { ...current, ...extra }));
+        let i = from;
+
+        while (i < to) {
+            const ch = src[i];
+
+            if (ch === '\\' && i + 1 < to && ESCAPABLE.test(src[i + 1])) {
+                text(src[i + 1]);
+                i += 2;
+                continue;
+            }
+
+            if (ch === '`') {
+                const run = this.countRun(src, i, to, '`');
+                const close = this.findCodeClose(src, i + run, to, run);
+                if (close < 0) {
+                    text(src.slice(i, i + run));
+                    i += run;
+                    continue;
+                }
+                let code = src.slice(i + run, close);
+                // One space of padding on both sides is part of the syntax, not the code
+                if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) {
+                    code = code.slice(1, -1);
+                }
+                text(code, { code: true });
+                i = close + run;
+                continue;
+            }
+
+            if (ch === '$') {
+                const next = this.parseMath(src, i, to, out, nodes);
+                if (next > i) {
+                    i = next;
+                    continue;
+                }
+            }
+
+            if (ch === '!' && src[i + 1] === '[') {
+                const next = this.parseImage(src, i, to, out, nodes);
+                if (next > i) {
+                    i = next;
+                    continue;
+                }
+            }
+
+            if (ch === '[' && src[i + 1] === '^') {
+                const ref = src.slice(i, to).match(FOOTNOTE_REF);
+                const content = ref ? out.options.resolveFootnote?.(ref[1]) : null;
+                if (ref && content != null) {
+                    nodes.push(() => out.objects.push({ kind: 'footnote', offset: out.text.length, content }));
+                    i += ref[0].length;
+                    continue;
+                }
+            }
+
+            if (ch === '[' && src[i + 1] === '[' && src[i - 1] !== '!') {
+                const end = src.indexOf(']]', i + 2);
+                if (end > i + 2 && end < to) {
+                    const inner = src.slice(i + 2, end);
+                    nodes.push(current => this.addWikilink(inner, current, out));
+                    i = end + 2;
+                    continue;
+                }
+            }
+
+            if (ch === '[') {
+                const link = this.matchLink(src, i, to);
+                if (link) {
+                    // Emphasis can't cross the brackets, so the link text is a range of its own
+                    nodes.push(current => this.parseRange(src, link.textStart, link.textEnd, { ...current, link: link.url }, out));
+                    i = link.end;
+                    continue;
+                }
+            }
+
+            if (ch === '<') {
+                const autolink = src.slice(i, to).match(AUTOLINK);
+                if (autolink) {
+                    text(autolink[1], { link: autolink[1] });
+                    i += autolink[0].length;
+                    continue;
+                }
+            }
+
+            if (ch === 'h' && !style.link && !this.isWordChar(src[i - 1])) {
+                const bare = src.slice(i, to).match(BARE_URL);
+                if (bare) {
+                    // Trailing punctuation belongs to the sentence, not the URL
+                    const url = bare[0].replace(/[.,;:!?)'"]+$/, '');
+                    text(url, { link: url });
+                    i += url.length;
+                    continue;
+                }
+            }
+
+            if (ch === '*' || ch === '_' || ch === '~') {
+                const run = this.readDelimiterRun(src, i, from, to);
+                nodes.push(run);
+                i += run.length;
+                continue;
+            }
+
+            text(ch);
+            i++;
+        }
+
+        this.matchDelimiters(nodes.filter((node): node is DelimiterRun => typeof node !== 'function'));
+        this.writeNodes(nodes, style, out);
+    }
+
+    /**
+     * Render `target#heading|alias` as its display text, linked when the target resolves
+     */
+    private static addWikilink(inner: string, style: InlineStyle, out: ParseState) {
+        const pipe = inner.indexOf('|');
+        const target = pipe >= 0 ? inner.slice(0, pipe) : inner;
+        const alias = pipe >= 0 ? inner.slice(pipe + 1).trim() : '';
+
+        const hash = target.indexOf('#');
+        const linkpath = (hash >= 0 ? target.slice(0, hash) : target).trim();
+        const heading = hash >= 0 ? target.slice(hash + 1).trim() : null;
+
+        // Obsidian shows `Note > Heading` for heading links without an alias
+        const display = alias || (heading ? (linkpath ? `${linkpath} > ${heading}` : heading) : linkpath);
+        const url = out.options.resolveWikilink?.(linkpath, heading) || null;
+        this.addText(out, display, url && !style.link ? { ...style, link: url } : style);
+    }
+
+    /**
+     * Parse `![[target|size]]` or `![alt|size](target)` at `i`. Embeds that don't
+     * resolve to an image are kept as text. Returns the index after the embed, or
+     * `i` when there is none.
+     */
+    private static parseImage(src: string, i: number, to: number, out: ParseState, nodes: InlineNode[]): number {
+        let target: string;
+        let label: string;
+        let end: number;
+
+        if (src[i + 2] === '[') {
+            const close = src.indexOf(']]', i + 3);
+            if (close < 0 || close >= to) return i;
+            const inner = src.slice(i + 3, close);
+            const pipe = inner.indexOf('|');
+            target = (pipe >= 0 ? inner.slice(0, pipe) : inner).trim();
+            label = pipe >= 0 ? inner.slice(pipe + 1).trim() : '';
+            end = close + 2;
+        } else {
+            const link = this.matchBracket(src, i + 1, to);
+            if (!link) return i;
+            target = link.url;
+            const alt = src.slice(link.textStart, link.textEnd);
+            label = alt.includes('|') ? alt.slice(alt.lastIndexOf('|') + 1).trim() : '';
+            end = link.end;
+        }
+
+        const uri = target ? out.options.resolveImage?.(target) : null;
+        if (!uri) {
+            const source = src.slice(i, end);
+            nodes.push(style => this.addText(out, source, style));
+            return end;
+        }
+
+        const image: InlineImage = { kind: 'image', offset: 0, uri };
+        const size = label.match(IMAGE_SIZE);
+        if (size) {
+            image.width = parseInt(size[1], 10);
+            if (size[2]) image.height = parseInt(size[2], 10);
+        }
+        nodes.push(() => out.objects.push({ ...image, offset: out.text.length }));
+        return end;
+    }
+
+    /**
+     * Parse `$inline$` or `$$display$$` math at `i`. Inline math can't start or end
+     * with a space or be followed by a digit, so prices like `$5 and $10` stay
+     * text. Returns the index after the formula, or `i` when there is none.
+     */
+    private static parseMath(src: string, i: number, to: number, out: ParseState, nodes: InlineNode[]): number {
+        const display = src[i + 1] === '$';
+        const start = i + (display ? 2 : 1);
+        if (!display && (start >= to || /\s/.test(src[start]))) return i;
+
+        let close = -1;
+        for (let j = start; j < to; j++) {
+            if (src[j] === '\\') {
+                j++;
+            } else if (src[j] === '$') {
+                if (display) {
+                    if (src[j + 1] === '$') close = j;
+                } else if (!/\s/.test(src[j - 1]) && !/\d/.test(src[j + 1] || '')) {
+                    close = j;
+                }
+                break;
+            }
+        }
+        if (close <= start || (display && close + 2 > to)) return i;
+
+        const end = close + (display ? 2 : 1);
+        const image = out.options.resolveMath?.(src.slice(start, close), display);
+        const math = src.slice(i, end);
+        if (!image) {
+            // Keep the source, without reading emphasis into e.g. `a_1`
+            nodes.push(style => this.addText(out, math, style));
+            return end;
+        }
+
+        nodes.push(() => out.objects.push({ kind: 'image', offset: out.text.length, ...image, math }));
+        return end;
+    }
+
+    /**
+     * Read the run of `*`, `_` or `~` at `i`. It can open emphasis unless
+     * whitespace follows and close it unless whitespace precedes; `_` can't do
+     * either inside a word, and strikethrough takes exactly `~~`.
+     */
+    private static readDelimiterRun(src: string, i: number, from: number, to: number): DelimiterRun {
+        const ch = src[i];
+        const length = this.countRun(src, i, to, ch);
+        const usable = ch !== '~' || length === 2;
+        const canOpen = usable && i + length < to && !/\s/.test(src[i + length])
+            && (ch !== '_' || !this.isWordChar(src[i - 1]));
+        const canClose = usable && i > from && !/\s/.test(src[i - 1])
+            && (ch !== '_' || !this.isWordChar(src[i + length]));
+
+        return { ch, length, remaining: length, canOpen, canClose, opens: [], closes: [] };
+    }
+
+    /**
+     * Pair each closing run with the nearest opening run of the same character,
+     * as CommonMark's "process emphasis" does. A pair uses two characters of
+     * each run when both have them, for bold, else one, for italic, so in
+     * `**a *b***` the italic takes the first `*` of the closing run and the bold
+     * the rest. Openers a kind of closer failed to match aren't searched for
+     * that kind again, which keeps this linear.
+     */
+    private static matchDelimiters(runs: DelimiterRun[]) {
+        const openers: DelimiterRun[] = [];
+        // Lowest opener worth searching, per character, closer that can open and length modulo 3
+        const bottoms = new Map<string, number>();
+
+        for (const closer of runs) {
+            const key = `${closer.ch}${closer.canOpen}${closer.length % 3}`;
+            while (closer.canClose && closer.remaining > 0) {
+                const bottom = bottoms.get(key) ?? 0;
+                let k = openers.length - 1;
+                while (k >= bottom && !this.canPair(openers[k], closer)) k--;
+                if (k < bottom) {
+                    bottoms.set(key, openers.length);
+                    break;
+                }
+
+                const opener = openers[k];
+                const used = Math.min(opener.remaining, closer.remaining) >= 2 ? 2 : 1;
+                const kind: EmphasisStyle = closer.ch === '~' ? 'strikethrough' : used === 2 ? 'bold' : 'italic';
+                opener.opens.push(kind);
+                closer.closes.push(kind);
+                opener.remaining -= used;
+                closer.remaining -= used;
+
+                // Openers between the two can no longer be closed
+                openers.length = opener.remaining > 0 ? k + 1 : k;
+                bottoms.forEach((value, name) => bottoms.set(name, Math.min(value, openers.length)));
+            }
+
+            if (closer.canOpen && closer.remaining > 0) {
+                openers.push(closer);
+            }
+        }
+    }
+
+    /**
+     * Whether two runs can pair. As in CommonMark, when either could both open
+     * and close, lengths adding up to a multiple of 3 only pair if both are one,
+     * so `*a**b*` stays italic around `a**b`.
+     */
+    private static canPair(opener: DelimiterRun, closer: DelimiterRun): boolean {
+        if (opener.ch !== closer.ch) return false;
+        if ((opener.canClose || closer.canOpen) && (opener.length + closer.length) % 3 === 0) {
+            return opener.length % 3 === 0 && closer.length % 3 === 0;
+        }
+        return true;
+    }
+
+    /**
+     * Write a range's nodes with the styles of the paired runs around them.
+     * A run closes with its first characters and opens with its last, and the
+     * characters no pair used are written as text in between.
+     */
+    private static writeNodes(nodes: InlineNode[], style: InlineStyle, out: ParseState) {
+        const depth: Record<EmphasisStyle, number> = { bold: 0, italic: 0, strikethrough: 0 };
+        const current = (): InlineStyle => ({
+            ...style,
+            ...(depth.bold > 0 ? { bold: true } : {}),
+            ...(depth.italic > 0 ? { italic: true } : {}),
+            ...(depth.strikethrough > 0 ? { strikethrough: true } : {})
+        });
+
+        for (const node of nodes) {
+            if (typeof node === 'function') {
+                node(current());
+                continue;
+            }
+            node.closes.forEach(kind => depth[kind]--);
+            this.addText(out, node.ch.repeat(node.remaining), current());
+            // Outermost first
+            [...node.opens].reverse().forEach(kind => depth[kind]++);
+        }
+    }
+
+    private static findCodeClose(src: string, from: number, to: number, length: number): number {
+        let j = from;
+        while (j < to) {
+            if (src[j] === '`') {
+                const run = this.countRun(src, j, to, '`');
+                if (run === length) return j;
+                j += run;
+                continue;
+            }
+            j++;
+        }
+        return -1;
+    }
+
+    /**
+     * Match `[text](url "title")` at `i`. Wikilinks (`[[...]]`) are not links here.
+     */
+    private static matchLink(src: string, i: number, to: number): LinkMatch | null {
+        if (src[i - 1] === '!') return null;
+        return this.matchBracket(src, i, to);
+    }
+
+    /**
+     * Match `[text](url)` at `i` regardless of what precedes it
+     */
+    private static matchBracket(src: string, i: number, to: number): LinkMatch | null {
+        if (src[i + 1] === '[') return null;
+
+        let depth = 0;
+        let j = i;
+        for (; j < to; j++) {
+            if (src[j] === '\\') {
+                j++;
+            } else if (src[j] === '[') {
+                depth++;
+            } else if (src[j] === ']') {
+                depth--;
+                if (depth === 0) break;
+            }
+        }
+        if (j >= to || src[j + 1] !== '(') return null;
+
+        const textEnd = j;
+        let parens = 0;
+        let k = j + 1;
+        for (; k < to; k++) {
+            if (src[k] === '\\') {
+                k++;
+            } else if (src[k] === '(') {
+                parens++;
+            } else if (src[k] === ')') {
+                parens--;
+                if (parens === 0) break;
+            }
+        }
+        if (k >= to) return null;
+
+        let url = src.slice(textEnd + 2, k).trim();
+        url = url.replace(/\s+("[^"]*"|'[^']*')$/, '');
+        url = url.replace(/^<(.*)>$/, '$1');
+        if (!url) return null;
+
+        return { textStart: i + 1, textEnd, url, end: k + 1 };
+    }
+
+    private static countRun(src: string, i: number, to: number, ch: string): number {
+        let j = i;
+        while (j < to && src[j] === ch) j++;
+        return j - i;
+    }
+
+    private static isWordChar(ch: string | undefined): boolean {
+        return !!ch && /[A-Za-z0-9\u00C0-\uFFFF]/.test(ch);
+    }
+
+    /**
+     * Append text, extending the previous span when the style is the same
+     */
+    private static addText(out: InlineText, text: string, style: InlineStyle) {
+        if (!text) return;
+        const start = out.text.length;
+        out.text += text;
+
+        if (!this.hasStyle(style)) return;
+
+        const last = out.spans[out.spans.length - 1];
+        if (last && last.end === start && this.sameStyle(last.style, style)) {
+            last.end = out.text.length;
+        } else {
+            out.spans.push({ start, end: out.text.length, style });
+        }
+    }
+
+    private static hasStyle(style: InlineStyle): boolean {
+        return !!(style.bold || style.italic || style.strikethrough || style.code || style.link);
+    }
+
+    private static sameStyle(a: InlineStyle, b: InlineStyle): boolean {
+        return !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.strikethrough === !!b.strikethrough
+            && !!a.code === !!b.code && a.link === b.link;
+    }
+}
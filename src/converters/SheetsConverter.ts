@@ -178,6 +178,36 @@ export class SheetsConverter {
         return tables;
     }
 
+    /**
+     * Extract tables together with the "## Sheet" heading they appear under,
+     * matching the layout toMarkdown() writes for multi-sheet spreadsheets
+     */
+    static extractSheetTables(markdown: string): { sheetTitle: string | null; rows: string[][] }[] {
+        const result: { sheetTitle: string | null; rows: string[][] }[] = [];
+        let sheetTitle: string | null = null;
+        let section: string[] = [];
+
+        const flush = () => {
+            for (const rows of this.extractTables(section.join('\n'))) {
+                result.push({ sheetTitle, rows });
+            }
+            section = [];
+        };
+
+        for (const line of markdown.split('\n')) {
+            const headingMatch = line.match(/^##\s+(.+)$/);
+            if (headingMatch) {
+                flush();
+                sheetTitle = headingMatch[1].trim();
+                continue;
+            }
+            section.push(line);
+        }
+        flush();
+
+        return result;
+    }
+
     /**
      * Convert Markdown table to 2D array
      */
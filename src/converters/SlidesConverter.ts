@@ -171,13 +171,15 @@ export class SlidesConverter {
      */
     static parseMarkdownToSlides(markdown: string): { title: string; body: string[] }[] {
         const slides: { title: string; body: string[] }[] = [];
-        const sections = markdown.split(/---\n*/);
+        // Split on separator lines only, so table header rows (| --- |) stay intact
+        const sections = markdown.split(/^---[ \t]*$/m);
 
-        for (const section of sections) {
-            const lines = section.trim().split('\n').filter(l => l.trim());
+        for (let s = 0; s < sections.length; s++) {
+            const lines = sections[s].trim().split('\n').filter(l => l.trim());
             if (lines.length === 0) continue;
 
             let title = '';
+            let isDeckTitle = false;
             const body: string[] = [];
 
             for (const line of lines) {
@@ -189,9 +191,10 @@ export class SlidesConverter {
                 }
 
                 // Regular heading
-                const headingMatch = line.match(/^#{1,6}\s+(.+)$/);
+                const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
                 if (headingMatch && !title) {
-                    title = headingMatch[1].trim();
+                    title = headingMatch[2].trim();
+                    isDeckTitle = s === 0 && headingMatch[1].length === 1;
                     continue;
                 }
 
@@ -213,6 +216,11 @@ export class SlidesConverter {
                 }
             }
 
+            // The leading "# Presentation title" section written by toMarkdown() is not a slide
+            if (isDeckTitle && body.length === 0 && sections.length > 1) {
+                continue;
+            }
+
             if (title || body.length > 0) {
                 slides.push({ title, body });
             }
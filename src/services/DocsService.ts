@@ -1,13 +1,97 @@
 import { GoogleApiService } from './GoogleApiService';
 import WorkspaceConnectPlugin from '../../main';
-import { DocsConverter } from '../converters/DocsConverter';
+import { TFile } from 'obsidian';
+import { DocsConverter, DocsExport, DocsExportOptions, DocsImportOptions } from '../converters/DocsConverter';
+import { MathImage } from '../converters/MarkdownInline';
+import { DriveComment } from './DriveService';
+import { ContentHash } from '../utils/ContentHash';
+import { MathRenderer } from '../utils/MathRenderer';
 
 export interface GoogleDocsDocument {
     documentId: string;
     title: string;
+    /** Tab the content is from, for one tab of a document split up by `DocsConverter.getTabs()` */
+    tabId?: string;
     body: {
         content: DocumentContent[];
     };
+    /** Lists referenced by paragraph bullets, by list id */
+    lists?: Record<string, DocsList>;
+    /** Named ranges grouped by name */
+    namedRanges?: Record<string, { name: string; namedRanges: NamedRange[] }>;
+    /** Images and other objects placed in the text, by object id */
+    inlineObjects?: Record<string, InlineObject>;
+    /** Footnote contents by footnote id */
+    footnotes?: Record<string, { footnoteId: string; content: DocumentContent[] }>;
+    headers?: Record<string, { headerId: string; content: DocumentContent[] }>;
+    footers?: Record<string, { footerId: string; content: DocumentContent[] }>;
+    documentStyle?: {
+        defaultHeaderId?: string;
+        defaultFooterId?: string;
+    };
+    /** Present when read with the content of all tabs, which leaves the fields above empty */
+    tabs?: DocsTab[];
+}
+
+export interface DocsTab {
+    tabProperties: {
+        tabId: string;
+        title: string;
+        /** Position among its siblings */
+        index?: number;
+        parentTabId?: string;
+    };
+    childTabs?: DocsTab[];
+    documentTab?: Omit<GoogleDocsDocument, 'documentId' | 'title' | 'tabId' | 'tabs'>;
+}
+
+export interface InlineObject {
+    objectId: string;
+    inlineObjectProperties: {
+        embeddedObject: {
+            title?: string;
+            description?: string;
+            /** Absent for objects other than images */
+            imageProperties?: {
+                /** Short-lived download URL for the image */
+                contentUri: string;
+                sourceUri?: string;
+            };
+            size?: { width?: Dimension; height?: Dimension };
+        };
+    };
+}
+
+export interface Dimension {
+    magnitude?: number;
+    unit: string;
+}
+
+export interface OptionalColor {
+    /** Absent for a transparent color; omitted components are 0 */
+    color?: { rgbColor?: { red?: number; green?: number; blue?: number } };
+}
+
+export interface NamedRange {
+    namedRangeId: string;
+    name: string;
+    ranges: { startIndex: number; endIndex: number }[];
+}
+
+export interface DocsList {
+    listProperties: {
+        /** Glyph settings for each nesting level (0-8) */
+        nestingLevels: NestingLevel[];
+    };
+}
+
+export interface NestingLevel {
+    /** Numbering style of ordered levels, e.g. DECIMAL or ROMAN */
+    glyphType?: string;
+    /** Symbol of unordered levels, e.g. ● */
+    glyphSymbol?: string;
+    glyphFormat?: string;
+    startNumber?: number;
 }
 
 export interface DocumentContent {
@@ -18,6 +102,19 @@ export interface DocumentContent {
         paragraphStyle?: {
             namedStyleType?: string;
             headingId?: string;
+            /** START, CENTER, END or JUSTIFIED */
+            alignment?: string;
+            indentStart?: Dimension;
+            indentFirstLine?: Dimension;
+            borderBottom?: { width?: Dimension };
+            borderLeft?: { width?: Dimension; color?: OptionalColor };
+            shading?: { backgroundColor?: OptionalColor };
+        };
+        /** Present when the paragraph is a list item */
+        bullet?: {
+            listId: string;
+            /** Omitted for the top level */
+            nestingLevel?: number;
         };
     };
     table?: {
@@ -26,6 +123,10 @@ export interface DocumentContent {
         tableRows: TableRow[];
     };
     sectionBreak?: any;
+    /** A table of contents inserted in Docs; its entries link to the headings */
+    tableOfContents?: {
+        content: DocumentContent[];
+    };
 }
 
 export interface ParagraphElement {
@@ -38,10 +139,25 @@ export interface ParagraphElement {
             italic?: boolean;
             underline?: boolean;
             strikethrough?: boolean;
-            link?: { url: string };
+            /** Internal links have a heading or bookmark id instead of a URL */
+            link?: { url?: string; headingId?: string; bookmarkId?: string; heading?: { id: string; tabId?: string } };
+            weightedFontFamily?: { fontFamily: string; weight?: number };
         };
+        /** Pending suggestions this text is part of, when read with suggestions inline */
+        suggestedInsertionIds?: string[];
+        suggestedDeletionIds?: string[];
+    };
+    inlineObjectElement?: {
+        inlineObjectId: string;
     };
-    inlineObjectElement?: any;
+    footnoteReference?: {
+        footnoteId: string;
+        /** Rendered number, e.g. "1" */
+        footnoteNumber: string;
+    };
+    horizontalRule?: {};
+    /** Text Docs fills in, e.g. a page number */
+    autoText?: { type: string };
 }
 
 export interface TableRow {
@@ -52,16 +168,67 @@ export interface TableCell {
     content: DocumentContent[];
 }
 
+/** Options for creating a document beyond its content */
+export interface DocumentOptions {
+    /** Start the document with a list of links to its headings */
+    tableOfContents?: boolean;
+    /** Split the content at its H1 headings into one tab per section */
+    tabs?: boolean;
+    /** Overrides the page size in the export settings */
+    pageSize?: 'letter' | 'a4';
+}
+
+/** A document converted for a new note */
+export interface DocsImport {
+    /** Note content, with comments, suggested edits, headers and footers as the import settings say */
+    markdown: string;
+    /** Content without them, as syncing converts the document, to use as the merge base */
+    base: string;
+    /** Markdown of each suggested edit marked in the note */
+    suggestions: string[];
+}
+
+/** Image formats Docs accepts, by file extension */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif'
+};
+
+/** Docs sizes objects in points, Obsidian embeds in pixels */
+const POINTS_PER_PIXEL = 0.75;
+const POINTS_PER_INCH = 72;
+
+/** Page width and height in points */
+const PAGE_SIZES: Record<'letter' | 'a4', [number, number]> = {
+    letter: [612, 792],
+    a4: [595.28, 841.89]
+};
+
 export class DocsService extends GoogleApiService {
     constructor(plugin: WorkspaceConnectPlugin) {
         super(plugin);
     }
 
-    async getDocument(documentId: string): Promise<GoogleDocsDocument> {
-        return await this.get(`https://docs.googleapis.com/v1/documents/${documentId}`);
+    /**
+     * Read a document with the content of all its tabs; see `DocsConverter.getTabs()`.
+     * With `suggestionsInline`, text of pending suggested edits is always included
+     * and marked with its suggestion ids (by default that depends on the user's
+     * access to the document).
+     */
+    async getDocument(documentId: string, suggestionsInline: boolean = false): Promise<GoogleDocsDocument> {
+        const params = new URLSearchParams({ includeTabsContent: 'true' });
+        if (suggestionsInline) {
+            params.set('suggestionsViewMode', 'SUGGESTIONS_INLINE');
+        }
+        return await this.get(`https://docs.googleapis.com/v1/documents/${documentId}?${params.toString()}`);
     }
 
-    async createDocument(title: string, content?: string): Promise<string> {
+    /**
+     * `sourcePath` is the note the Markdown comes from, used to resolve its wikilinks
+     */
+    async createDocument(title: string, content?: string, sourcePath: string = '', options: DocumentOptions = {}): Promise<string> {
         // Create empty document
         const createResponse = await this.post('https://docs.googleapis.com/v1/documents', {
             title
@@ -70,64 +237,522 @@ export class DocsService extends GoogleApiService {
         const documentId = createResponse.documentId;
 
         // If content provided, add it
-        if (content && content.trim()) {
-            const requests = DocsConverter.markdownToDocsRequests(content);
+        const sections = options.tabs && content ? DocsConverter.splitSections(content) : [];
+        if (sections.length > 1) {
+            await this.createTabs(documentId, title, sections, sourcePath);
+        } else if (content && content.trim()) {
+            await this.writeMarkdown(documentId, content, sourcePath);
+        }
 
-            if (requests.length > 0) {
-                await this.post(`https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`, {
-                    requests
-                });
-            }
+        if (options.tableOfContents) {
+            await this.updateFromDocument(documentId, doc => DocsConverter.tableOfContentsRequests(doc));
         }
 
+        await this.applyPageSetup(documentId, title, options);
+
         return documentId;
     }
 
-    async updateDocument(documentId: string, content: string): Promise<void> {
-        // Get current document to find content range
+    /**
+     * Set up the pages of a new document and add the header and footer, as the
+     * export settings say
+     */
+    private async applyPageSetup(documentId: string, title: string, options: DocumentOptions) {
+        const { settings } = this.plugin;
+        const url = `https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`;
+
+        const [width, height] = PAGE_SIZES[options.pageSize || settings.docsPageSize];
+        const margin = { magnitude: settings.docsMarginInches * POINTS_PER_INCH, unit: 'PT' };
+        const requests: any[] = DocsConverter.getTabs(await this.getDocument(documentId)).map(tab => ({
+            updateDocumentStyle: {
+                documentStyle: {
+                    pageSize: { width: { magnitude: width, unit: 'PT' }, height: { magnitude: height, unit: 'PT' } },
+                    marginTop: margin,
+                    marginBottom: margin,
+                    marginLeft: margin,
+                    marginRight: margin,
+                    flipPageOrientation: settings.docsLandscape
+                },
+                fields: 'pageSize,marginTop,marginBottom,marginLeft,marginRight,flipPageOrientation',
+                ...(tab.tabId ? { tabId: tab.tabId } : {})
+            }
+        }));
+
+        const header = this.expandTemplate(settings.docsHeader, title);
+        const footer = this.expandTemplate(settings.docsFooter, title);
+        if (header.trim()) {
+            requests.push({ createHeader: { type: 'DEFAULT' } });
+        }
+        if (footer.trim()) {
+            requests.push({ createFooter: { type: 'DEFAULT' } });
+        }
+
+        const response = await this.post(url, { requests });
+        const replies: any[] = response?.replies || [];
+        const headerId = replies.find(reply => reply?.createHeader)?.createHeader.headerId;
+        const footerId = replies.find(reply => reply?.createFooter)?.createFooter.footerId;
+
+        // A new header or footer holds an empty paragraph starting at 0
+        const textRequests: any[] = [];
+        if (headerId) {
+            textRequests.push({ insertText: { location: { segmentId: headerId, index: 0 }, text: header } });
+        }
+        if (footerId) {
+            textRequests.push({ insertText: { location: { segmentId: footerId, index: 0 }, text: footer } });
+        }
+        if (textRequests.length > 0) {
+            await this.post(url, { requests: textRequests });
+        }
+    }
+
+    /**
+     * Fill in `{{title}}` and `{{date}}`, keeping the template's spacing. Docs
+     * can't insert page numbers through its API, so `{{page}}` and `{{pages}}`
+     * are left out, as the settings say.
+     */
+    private expandTemplate(template: string, title: string): string {
+        return template
+            .replace(/\{\{title\}\}/g, title)
+            .replace(/\{\{date\}\}/g, new Date().toISOString().slice(0, 10))
+            .replace(/\{\{pages?\}\}/g, '');
+    }
+
+    /**
+     * Rewrite the document to match `content`. Only blocks that changed are
+     * replaced, so comments and edits made in Docs elsewhere stay. A document
+     * with several tabs gets one H1 section of `content` per tab.
+     */
+    async updateDocument(documentId: string, content: string, sourcePath: string = ''): Promise<void> {
         const doc = await this.getDocument(documentId);
+        const tabs = DocsConverter.getTabs(doc);
+        if (tabs.length > 1) {
+            await this.writeTabs(documentId, tabs, content, sourcePath);
+            return;
+        }
+
+        const importOptions = this.getImportOptions();
+        await this.writeMarkdown(documentId, content, sourcePath, tabs[0].tabId,
+            options => DocsConverter.markdownToDocsUpdate(tabs[0], content, options, importOptions));
+    }
 
-        const requests: any[] = [];
+    /**
+     * Write each section into a tab of a new document named after it, adding a
+     * tab for each section after the first
+     */
+    private async createTabs(documentId: string, title: string, sections: { title: string | null; markdown: string }[], sourcePath: string) {
+        const url = `https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`;
+        const first = DocsConverter.getTabs(await this.getDocument(documentId))[0];
+
+        const requests = sections.map((section, i) => {
+            const tabProperties = { title: section.title ?? title };
+            return i === 0
+                ? { updateDocumentTabProperties: { tabProperties: { ...tabProperties, tabId: first.tabId }, fields: 'title' } }
+                : { addDocumentTab: { tabProperties } };
+        });
+        const response = await this.post(url, { requests });
+        const tabIds: string[] = (response?.replies || [])
+            .map((reply: any) => reply?.addDocumentTab?.tabProperties?.tabId)
+            .filter(Boolean);
+        tabIds.unshift(first.tabId!);
 
-        // Calculate end index (skip the newline at the start)
-        let endIndex = 1;
-        if (doc.body && doc.body.content) {
-            const lastContent = doc.body.content[doc.body.content.length - 1];
-            if (lastContent) {
-                endIndex = lastContent.endIndex - 1;
+        for (let i = 0; i < sections.length; i++) {
+            if (tabIds[i] && sections[i].markdown.trim()) {
+                await this.writeMarkdown(documentId, sections[i].markdown, sourcePath, tabIds[i]);
             }
         }
+    }
 
-        // Delete existing content if there is any
-        if (endIndex > 1) {
-            requests.push({
-                deleteContentRange: {
-                    range: {
-                        startIndex: 1,
-                        endIndex: endIndex
-                    }
-                }
-            });
+    /**
+     * Write a note imported from several tabs back into them. The note is split
+     * at the tab titles toMarkdown wrote, and each section updates its tab.
+     * Tabs are never added, renamed or deleted, so a tab whose title heading
+     * was removed from the note is left as it is.
+     */
+    private async writeTabs(documentId: string, tabs: GoogleDocsDocument[], content: string, sourcePath: string) {
+        const sections = DocsConverter.splitSections(content, tabs.map(tab => tab.title));
+        // Content above the first tab title goes with the first section
+        let leading = sections[0].title === null ? sections.shift()!.markdown : '';
+        if (sections.length === 0) {
+            throw new Error('None of the document\'s tab titles is an H1 heading in the note, so it can\'t be matched to the tabs');
         }
 
-        // Add new content
-        const insertRequests = DocsConverter.markdownToDocsRequests(content);
-        requests.push(...insertRequests);
+        const importOptions = this.getImportOptions();
+        let nextTab = 0;
+        for (const section of sections) {
+            // splitSections matched the titles in the same order
+            const index = tabs.findIndex((tab, j) => j >= nextTab && tab.title.trim() === section.title);
+            const tab = tabs[index];
+            nextTab = index + 1;
 
+            const markdown = leading && section.markdown ? `${leading}\n\n${section.markdown}` : leading || section.markdown;
+            leading = '';
+            await this.writeMarkdown(documentId, markdown, sourcePath, tab.tabId,
+                options => DocsConverter.markdownToDocsUpdate(tab, markdown, options, importOptions));
+        }
+    }
+
+    async appendContent(documentId: string, content: string, sourcePath: string = ''): Promise<void> {
+        await this.writeMarkdown(documentId, content, sourcePath);
+    }
+
+    /**
+     * Send the requests for writing `content` to the tab `tabId` (the first tab
+     * when unset), by default inserted at its start. Footnote text goes in a
+     * second batch, since a footnote's id is only known from the reply to the
+     * request that created it.
+     */
+    private async writeMarkdown(
+        documentId: string,
+        content: string,
+        sourcePath: string,
+        tabId?: string,
+        build: (options: DocsExportOptions) => DocsExport = options => DocsConverter.markdownToDocsRequests(content, options)
+    ) {
+        const url = `https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`;
+
+        await this.withImages(content, sourcePath, async (imageOptions) => {
+            const options = { ...imageOptions, tabId };
+            const { requests, footnotes, headingLinks } = build(options);
+            if (requests.length === 0) return;
+
+            const response = await this.post(url, { requests });
+
+            if (footnotes.length > 0) {
+                const footnoteIds: string[] = (response?.replies || [])
+                    .map((reply: any) => reply?.createFootnote?.footnoteId)
+                    .filter(Boolean);
+                const footnoteRequests: any[] = [];
+                footnoteIds.forEach((footnoteId, i) => {
+                    footnoteRequests.push(...DocsConverter.footnoteRequests(footnoteId, footnotes[i], options));
+                });
+
+                if (footnoteRequests.length > 0) {
+                    await this.post(url, { requests: footnoteRequests });
+                }
+            }
+
+            // Headings only have ids once they exist
+            if (headingLinks) {
+                await this.updateFromDocument(documentId, doc => DocsConverter.headingLinkRequests(doc));
+            }
+        });
+    }
+
+    /**
+     * Send the requests `build` derives from the current state of the document
+     */
+    private async updateFromDocument(documentId: string, build: (doc: GoogleDocsDocument) => any[]) {
+        const requests = build(await this.getDocument(documentId));
         if (requests.length > 0) {
-            await this.post(`https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`, {
-                requests
+            await this.post(`https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`, { requests });
+        }
+    }
+
+    /**
+     * Convert a document to Markdown for syncing, saving its images as attachments
+     * of the note at `notePath`. Comments, suggested edits, headers and footers
+     * are left out, or the next push would write them into the document. Without
+     * `saveImages` nothing is written to the vault.
+     */
+    async toMarkdown(doc: GoogleDocsDocument, notePath: string, saveImages: boolean = true): Promise<string> {
+        return await this.convertDocument(doc, notePath, false, [], saveImages);
+    }
+
+    /**
+     * Convert a document for a new note at `notePath`, with comments, suggested
+     * edits, headers and footers as the import settings say
+     */
+    async importDocument(doc: GoogleDocsDocument, notePath: string): Promise<DocsImport> {
+        const suggestions: string[] = [];
+        const markdown = await this.convertDocument(doc, notePath, true, await this.getComments(doc), true, suggestions);
+        // The images were saved just now
+        const base = await this.convertDocument(doc, notePath, false, [], false);
+        return { markdown, base, suggestions };
+    }
+
+    /**
+     * Convert each tab of a document to a note of its own in `folder`, with
+     * comments and suggested edits as the import settings say. A comment goes
+     * with the first tab its text is found in, or else with the first tab.
+     */
+    async tabsToNotes(doc: GoogleDocsDocument, folder: string): Promise<{ path: string; markdown: string }[]> {
+        const { app } = this.plugin;
+        const tabs = DocsConverter.getTabs(doc);
+        const texts = tabs.map(tab => DocsConverter.extractPlainText(tab));
+        const comments = await this.getComments(doc);
+
+        const notes: { path: string; markdown: string }[] = [];
+        for (let i = 0; i < tabs.length; i++) {
+            const baseName = this.plugin.sanitizeFileName(tabs[i].title);
+            let path = `${folder}/${baseName}.md`;
+            for (let counter = 1; app.vault.getAbstractFileByPath(path) || notes.some(note => note.path === path); counter++) {
+                path = `${folder}/${baseName} ${counter}.md`;
+            }
+
+            const tabComments = comments.filter(comment => {
+                const quote = comment.quotedFileContent?.value.trim();
+                const owner = quote ? texts.findIndex(text => text.includes(quote)) : -1;
+                return owner === i || (owner === -1 && i === 0);
             });
+            notes.push({ path, markdown: await this.convertDocument(tabs[i], path, true, tabComments, true) });
         }
+        return notes;
     }
 
-    async appendContent(documentId: string, content: string): Promise<void> {
-        const requests = DocsConverter.markdownToDocsRequests(content);
+    private async getComments(doc: GoogleDocsDocument): Promise<DriveComment[]> {
+        const { driveService, settings } = this.plugin;
+        return settings.importComments !== 'none' ? await driveService.listComments(doc.documentId) : [];
+    }
 
-        if (requests.length > 0) {
-            await this.post(`https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`, {
-                requests
+    private async convertDocument(
+        doc: GoogleDocsDocument,
+        notePath: string,
+        annotations: boolean,
+        comments: DriveComment[],
+        saveImages: boolean,
+        suggestions?: string[]
+    ): Promise<string> {
+        const { settings } = this.plugin;
+        const embeds = await this.downloadImages(doc, notePath, saveImages);
+        const options: DocsImportOptions = {
+            ...this.getImportOptions(),
+            resolveInlineObject: (inlineObjectId) => embeds.get(inlineObjectId) || null
+        };
+
+        if (annotations) {
+            options.suggestions = settings.importSuggestions;
+            options.onSuggestion = (markdown) => suggestions?.push(markdown);
+            if (settings.importHeadersFooters !== 'none') {
+                options.headersFooters = settings.importHeadersFooters;
+            }
+            if (settings.importComments !== 'none') {
+                options.comments = comments;
+                options.commentStyle = settings.importComments;
+            }
+        }
+
+        return DocsConverter.toMarkdown(doc, options);
+    }
+
+    /**
+     * Run `write` with export options under which image embeds (and formulas, when
+     * rendered as images) resolve. Remote images are used as they are. Vault
+     * images and formulas are uploaded to Drive (again only when they changed)
+     * and shared by link just while Docs fetches them.
+     */
+    private async withImages(content: string, sourcePath: string, write: (options: DocsExportOptions) => Promise<void>) {
+        const { driveService, settings } = this.plugin;
+        const uris = new Map<string, string>();
+        const formulas = new Map<string, MathImage>();
+        const shared: { fileId: string; permissionId: string }[] = [];
+
+        for (const target of DocsConverter.findImageTargets(content)) {
+            if (/^https?:\/\//i.test(target)) {
+                uris.set(target, target);
+                continue;
+            }
+
+            const file = this.getImageFile(target, sourcePath);
+            if (!file) continue;
+
+            try {
+                const mimeType = IMAGE_MIME_TYPES[file.extension.toLowerCase()];
+                const share = await this.shareUpload(file.path, file.name, mimeType, file.stat, () => this.plugin.app.vault.readBinary(file));
+                shared.push(share);
+                uris.set(target, driveService.getDownloadUrl(share.fileId));
+            } catch (e: any) {
+                console.error(`Could not upload ${file.path}:`, e);
+            }
+        }
+
+        if (settings.mathAsImages) {
+            for (const { latex, display } of DocsConverter.findMath(content)) {
+                const source = display ? `$$${latex}$$` : `$${latex}$`;
+                try {
+                    const rendered = await MathRenderer.renderToPng(latex, display);
+                    if (!rendered) continue;
+
+                    // A formula's image only changes with its source
+                    const key = `math:${ContentHash.hash(source)}`;
+                    const share = await this.shareUpload(key, `${key.replace(':', '-')}.png`, 'image/png', { mtime: 0, size: rendered.data.byteLength }, async () => rendered.data);
+                    shared.push(share);
+                    formulas.set(source, { uri: driveService.getDownloadUrl(share.fileId), width: rendered.width, height: rendered.height });
+                } catch (e: any) {
+                    console.error(`Could not render ${source}:`, e);
+                }
+            }
+        }
+
+        try {
+            await write({
+                ...this.getExportOptions(sourcePath),
+                resolveImage: (target) => uris.get(target) || null,
+                resolveMath: (latex, display) => formulas.get(display ? `$$${latex}$$` : `$${latex}$`) || null
             });
+        } finally {
+            // Docs keeps its own copy of an inserted image, so the link isn't needed any more
+            for (const { fileId, permissionId } of shared) {
+                try {
+                    await driveService.removePermission(fileId, permissionId);
+                } catch (e: any) {
+                    console.error(`Could not unshare image ${fileId}:`, e);
+                }
+            }
+        }
+    }
+
+    private getImageFile(target: string, sourcePath: string): TFile | null {
+        let linkpath = target;
+        try {
+            // Markdown image paths are often URL-encoded, e.g. `my%20image.png`
+            linkpath = decodeURI(target);
+        } catch (e) {
+            // Not encoded after all
+        }
+
+        const file = this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+        return file && IMAGE_MIME_TYPES[file.extension.toLowerCase()] ? file : null;
+    }
+
+    /**
+     * Share an image by link, uploading it first unless this version is on Drive
+     * already. `key` identifies the image across exports, e.g. its vault path.
+     */
+    private async shareUpload(
+        key: string,
+        name: string,
+        mimeType: string,
+        version: { mtime: number; size: number },
+        read: () => Promise<ArrayBuffer>
+    ): Promise<{ fileId: string; permissionId: string }> {
+        const { driveService, settings } = this.plugin;
+
+        const uploaded = settings.uploadedImages[key];
+        if (uploaded && uploaded.mtime === version.mtime && uploaded.size === version.size) {
+            try {
+                return { fileId: uploaded.fileId, permissionId: await driveService.shareWithLink(uploaded.fileId) };
+            } catch (e) {
+                // Removed from Drive in the meantime; upload it again
+            }
+        }
+
+        const fileId = await driveService.uploadFile(name, await read(), mimeType, settings.googleDriveFolderId || undefined);
+
+        settings.uploadedImages[key] = { fileId, mtime: version.mtime, size: version.size };
+        await this.plugin.saveSettings();
+
+        return { fileId, permissionId: await driveService.shareWithLink(fileId) };
+    }
+
+    /**
+     * Save the document's images into the attachment folder and return the embed
+     * for each inline object id. Without `save`, the embeds are worked out without
+     * writing anything.
+     */
+    private async downloadImages(doc: GoogleDocsDocument, notePath: string, save: boolean): Promise<Map<string, string>> {
+        const embeds = new Map<string, string>();
+
+        for (const tab of DocsConverter.getTabs(doc)) {
+            // Formulas are restored as LaTeX instead
+            const math = DocsConverter.getMathSources(tab);
+
+            for (const [objectId, object] of Object.entries(tab.inlineObjects || {})) {
+                const embedded = object.inlineObjectProperties?.embeddedObject;
+                if (!embedded?.imageProperties?.contentUri || math.has(objectId)) continue;
+
+                try {
+                    const linktext = await this.saveImage(doc, objectId, embedded.imageProperties.contentUri, notePath, save);
+                    const width = embedded.size?.width;
+                    const size = width?.magnitude && width.unit === 'PT' ? `|${Math.round(width.magnitude / POINTS_PER_PIXEL)}` : '';
+                    embeds.set(objectId, `![[${linktext}${size}]]`);
+                } catch (e: any) {
+                    console.error(`Could not download image ${objectId} of ${doc.title}:`, e);
+                }
+            }
+        }
+
+        return embeds;
+    }
+
+    /**
+     * Images are named after the document and object id, so pulling again
+     * reuses the file saved the last time. Returns the link text of the image
+     * file; without `save`, that of the file the image would be saved as.
+     */
+    private async saveImage(doc: GoogleDocsDocument, objectId: string, contentUri: string, notePath: string, save: boolean): Promise<string> {
+        const { app } = this.plugin;
+        const baseName = `${this.plugin.sanitizeFileName(doc.title)} ${objectId.replace(/[^\w-]/g, '')}`;
+
+        for (const extension of Object.keys(IMAGE_MIME_TYPES)) {
+            const existing = app.metadataCache.getFirstLinkpathDest(`${baseName}.${extension}`, notePath);
+            if (existing) return app.metadataCache.fileToLinktext(existing, notePath);
         }
+
+        const response = await this.request({ url: contentUri, raw: true });
+        const contentType = (response.headers['content-type'] || response.headers['Content-Type'] || '').split(';')[0].trim();
+        const extension = Object.keys(IMAGE_MIME_TYPES).find(ext => IMAGE_MIME_TYPES[ext] === contentType) || 'png';
+        // Finding a free attachment path can create the attachment folder
+        if (!save) return `${baseName}.${extension}`;
+
+        const path = await app.fileManager.getAvailablePathForAttachment(`${baseName}.${extension}`, notePath);
+        const file = await app.vault.createBinary(path, response.arrayBuffer);
+        return app.metadataCache.fileToLinktext(file, notePath);
+    }
+
+    /**
+     * Wikilinks to notes linked to a Google file point at that file; other notes
+     * get an obsidian:// link when enabled, otherwise just their text
+     */
+    private getExportOptions(sourcePath: string): DocsExportOptions {
+        const { app, settings } = this.plugin;
+
+        return {
+            resolveWikilink: (linkpath) => {
+                if (!linkpath) return null;
+                const target = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+                if (!target) return null;
+
+                const linked = settings.linkedFiles.find(l => l.localPath === target.path);
+                if (linked) {
+                    return this.plugin.driveService.getEditUrl(linked.googleFileType, linked.googleFileId);
+                }
+                if (settings.wikilinkObsidianUri) {
+                    return `obsidian://open?vault=${encodeURIComponent(app.vault.getName())}&file=${encodeURIComponent(target.path)}`;
+                }
+                return null;
+            }
+        };
+    }
+
+    /**
+     * Links to linked Google files and to notes in this vault import as wikilinks
+     */
+    private getImportOptions(): DocsImportOptions {
+        const { app, settings } = this.plugin;
+
+        const toLinktext = (path: string): string | null => {
+            const file = app.vault.getAbstractFileByPath(path);
+            return file instanceof TFile ? app.metadataCache.fileToLinktext(file, '', true) : null;
+        };
+
+        return {
+            resolveLinkTarget: (url) => {
+                const googleMatch = url.match(/^https:\/\/docs\.google\.com\/(?:document|spreadsheets|presentation|forms)\/d\/([a-zA-Z0-9_-]+)/);
+                if (googleMatch) {
+                    const linked = settings.linkedFiles.find(l => l.googleFileId === googleMatch[1]);
+                    return linked ? toLinktext(linked.localPath) : null;
+                }
+
+                if (url.startsWith('obsidian://open?')) {
+                    const params = new URLSearchParams(url.slice(url.indexOf('?') + 1));
+                    const file = params.get('file');
+                    if (file && params.get('vault') === app.vault.getName()) {
+                        return toLinktext(file);
+                    }
+                }
+
+                return null;
+            }
+        };
     }
 }
@@ -7,6 +7,36 @@ export interface GoogleFile {
     mimeType: string;
     modifiedTime: string;
     webViewLink?: string;
+    /** Monotonically increasing edit counter (present for Google-native files) */
+    version?: string;
+    /** Only present for binary (non Google-native) files */
+    md5Checksum?: string;
+    /** Only present for binary (non Google-native) files */
+    headRevisionId?: string;
+}
+
+export interface DriveChange {
+    fileId: string;
+    removed?: boolean;
+    time?: string;
+    file?: GoogleFile & { trashed?: boolean };
+}
+
+export interface DriveCommentReply {
+    author?: { displayName: string };
+    createdTime: string;
+    /** Plain text */
+    content: string;
+    deleted?: boolean;
+}
+
+export interface DriveComment extends DriveCommentReply {
+    id: string;
+    /** Whether the discussion was marked done */
+    resolved?: boolean;
+    /** Document text the comment is anchored to */
+    quotedFileContent?: { value: string };
+    replies?: DriveCommentReply[];
 }
 
 const MIME_TYPES = {
@@ -67,12 +97,82 @@ export class DriveService extends GoogleApiService {
 
     async getFileMetadata(fileId: string): Promise<GoogleFile> {
         const params = new URLSearchParams({
-            fields: 'id,name,mimeType,modifiedTime,webViewLink'
+            fields: 'id,name,mimeType,modifiedTime,webViewLink,version,md5Checksum,headRevisionId'
         });
 
         return await this.get(`https://www.googleapis.com/drive/v3/files/${fileId}?${params.toString()}`);
     }
 
+    /**
+     * Identify the current remote revision of a file. Google-native files have no
+     * checksum or head revision, so fall back through version and modifiedTime.
+     */
+    getRevisionKey(file: GoogleFile): string {
+        return file.headRevisionId || file.md5Checksum || (file.version ? `v${file.version}` : file.modifiedTime);
+    }
+
+    /**
+     * Get a cursor for the Drive change feed that starts from now
+     */
+    async getStartPageToken(): Promise<string> {
+        const response = await this.get('https://www.googleapis.com/drive/v3/changes/startPageToken');
+        return response.startPageToken;
+    }
+
+    /**
+     * Read every change since `pageToken`, following pagination.
+     * Returns the changes and the cursor to use on the next call.
+     */
+    async listChanges(pageToken: string): Promise<{ changes: DriveChange[]; newStartPageToken: string }> {
+        const changes: DriveChange[] = [];
+        let token = pageToken;
+
+        while (true) {
+            const params = new URLSearchParams({
+                pageToken: token,
+                pageSize: '1000',
+                spaces: 'drive',
+                fields: 'nextPageToken,newStartPageToken,changes(fileId,removed,time,file(id,name,mimeType,modifiedTime,version,md5Checksum,headRevisionId,trashed))'
+            });
+
+            const response = await this.get(`https://www.googleapis.com/drive/v3/changes?${params.toString()}`);
+            changes.push(...(response.changes || []));
+
+            if (response.newStartPageToken) {
+                return { changes, newStartPageToken: response.newStartPageToken };
+            }
+            if (!response.nextPageToken) {
+                // Shouldn't happen, but don't lose the position we reached
+                return { changes, newStartPageToken: token };
+            }
+            token = response.nextPageToken;
+        }
+    }
+
+    /**
+     * Read every comment on a file with its replies, following pagination
+     */
+    async listComments(fileId: string): Promise<DriveComment[]> {
+        const comments: DriveComment[] = [];
+        let pageToken = '';
+
+        do {
+            const params = new URLSearchParams({
+                pageSize: '100',
+                fields: 'nextPageToken,comments(id,author(displayName),createdTime,content,deleted,resolved,quotedFileContent(value),replies(author(displayName),createdTime,content,deleted))'
+            });
+            if (pageToken) {
+                params.set('pageToken', pageToken);
+            }
+
+            const response = await this.get(`https://www.googleapis.com/drive/v3/files/${fileId}/comments?${params.toString()}`);
+            comments.push(...(response.comments || []));
+            pageToken = response.nextPageToken || '';
+        } while (pageToken);
+
+        return comments;
+    }
+
     async moveToFolder(fileId: string, folderId: string): Promise<void> {
         const params = new URLSearchParams({
             addParents: folderId,
@@ -94,6 +194,80 @@ export class DriveService extends GoogleApiService {
         );
     }
 
+    async trashFile(fileId: string): Promise<void> {
+        await this.patch(`https://www.googleapis.com/drive/v3/files/${fileId}`, {
+            trashed: true
+        });
+    }
+
+    /**
+     * Upload a binary file with a multipart request (metadata and content in one call)
+     */
+    async uploadFile(name: string, data: ArrayBuffer, mimeType: string, folderId?: string): Promise<string> {
+        const boundary = `workspace-connect-${Date.now().toString(36)}`;
+        const metadata: any = { name, mimeType };
+        if (folderId) {
+            metadata.parents = [folderId];
+        }
+
+        const encoder = new TextEncoder();
+        const head = encoder.encode(
+            `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(metadata)}\r\n` +
+            `--${boundary}\r\nContent-Type: ${mimeType}\r\n\r\n`
+        );
+        const tail = encoder.encode(`\r\n--${boundary}--`);
+
+        const body = new Uint8Array(head.length + data.byteLength + tail.length);
+        body.set(head, 0);
+        body.set(new Uint8Array(data), head.length);
+        body.set(tail, head.length + data.byteLength);
+
+        const response = await this.request({
+            url: 'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id',
+            method: 'POST',
+            body: body.buffer,
+            headers: { 'Content-Type': `multipart/related; boundary=${boundary}` }
+        });
+        return response.id;
+    }
+
+    /**
+     * Let anyone with the link read a file. Returns the permission id for revoking it.
+     */
+    async shareWithLink(fileId: string): Promise<string> {
+        const response = await this.post(`https://www.googleapis.com/drive/v3/files/${fileId}/permissions?fields=id`, {
+            role: 'reader',
+            type: 'anyone'
+        });
+        return response.id;
+    }
+
+    async removePermission(fileId: string, permissionId: string): Promise<void> {
+        await this.delete(`https://www.googleapis.com/drive/v3/files/${fileId}/permissions/${permissionId}`);
+    }
+
+    /**
+     * Direct download URL of a file shared with `shareWithLink`
+     */
+    getDownloadUrl(fileId: string): string {
+        return `https://drive.google.com/uc?export=download&id=${fileId}`;
+    }
+
+    getEditUrl(type: 'docs' | 'sheets' | 'slides' | 'forms', fileId: string): string {
+        switch (type) {
+            case 'docs':
+                return `https://docs.google.com/document/d/${fileId}/edit`;
+            case 'sheets':
+                return `https://docs.google.com/spreadsheets/d/${fileId}/edit`;
+            case 'slides':
+                return `https://docs.google.com/presentation/d/${fileId}/edit`;
+            case 'forms':
+                return `https://docs.google.com/forms/d/${fileId}/edit`;
+            default:
+                return `https://drive.google.com/file/d/${fileId}`;
+        }
+    }
+
     getFileType(mimeType: string): 'docs' | 'sheets' | 'slides' | 'forms' | null {
         const entries = Object.entries(MIME_TYPES);
         for (const [type, mime] of entries) {
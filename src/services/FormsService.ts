@@ -1,5 +1,6 @@
 import { GoogleApiService } from './GoogleApiService';
 import WorkspaceConnectPlugin from '../../main';
+import { FormsConverter, MarkdownFormQuestion } from '../converters/FormsConverter';
 
 export interface GoogleForm {
     formId: string;
@@ -118,6 +119,9 @@ export interface Answer {
     };
 }
 
+/** Type labels, as getQuestionTypeLabel returns them, of the questions buildQuestion creates */
+const BUILDABLE_TYPE_LABELS = ['Short Answer', 'Long Answer', 'Multiple Choice', 'Checkboxes', 'Dropdown', 'Scale'];
+
 export class FormsService extends GoogleApiService {
     constructor(plugin: WorkspaceConnectPlugin) {
         super(plugin);
@@ -165,50 +169,7 @@ export class FormsService extends GoogleApiService {
         questionType: 'SHORT_ANSWER' | 'PARAGRAPH' | 'MULTIPLE_CHOICE' | 'CHECKBOXES' | 'DROPDOWN' | 'SCALE',
         options?: { choices?: string[]; required?: boolean; low?: number; high?: number }
     ): Promise<string> {
-        let question: any = {};
-
-        switch (questionType) {
-            case 'SHORT_ANSWER':
-                question = { textQuestion: { paragraph: false } };
-                break;
-            case 'PARAGRAPH':
-                question = { textQuestion: { paragraph: true } };
-                break;
-            case 'MULTIPLE_CHOICE':
-                question = {
-                    choiceQuestion: {
-                        type: 'RADIO',
-                        options: options?.choices?.map(c => ({ value: c })) || []
-                    }
-                };
-                break;
-            case 'CHECKBOXES':
-                question = {
-                    choiceQuestion: {
-                        type: 'CHECKBOX',
-                        options: options?.choices?.map(c => ({ value: c })) || []
-                    }
-                };
-                break;
-            case 'DROPDOWN':
-                question = {
-                    choiceQuestion: {
-                        type: 'DROP_DOWN',
-                        options: options?.choices?.map(c => ({ value: c })) || []
-                    }
-                };
-                break;
-            case 'SCALE':
-                question = {
-                    scaleQuestion: {
-                        low: options?.low || 1,
-                        high: options?.high || 5
-                    }
-                };
-                break;
-        }
-
-        question.required = options?.required || false;
+        const question = this.buildQuestion(questionType, options);
 
         const response = await this.post(`https://forms.googleapis.com/v1/forms/${formId}:batchUpdate`, {
             requests: [{
@@ -265,30 +226,7 @@ export class FormsService extends GoogleApiService {
 
         for (let i = 0; i < questions.length; i++) {
             const q = questions[i];
-            let question: any = {};
-
-            switch (q.questionType) {
-                case 'SHORT_ANSWER':
-                    question = { textQuestion: { paragraph: false } };
-                    break;
-                case 'PARAGRAPH':
-                    question = { textQuestion: { paragraph: true } };
-                    break;
-                case 'MULTIPLE_CHOICE':
-                    question = { choiceQuestion: { type: 'RADIO', options: q.options?.choices?.map(c => ({ value: c })) || [] } };
-                    break;
-                case 'CHECKBOXES':
-                    question = { choiceQuestion: { type: 'CHECKBOX', options: q.options?.choices?.map(c => ({ value: c })) || [] } };
-                    break;
-                case 'DROPDOWN':
-                    question = { choiceQuestion: { type: 'DROP_DOWN', options: q.options?.choices?.map(c => ({ value: c })) || [] } };
-                    break;
-                case 'SCALE':
-                    question = { scaleQuestion: { low: q.options?.low || 1, high: q.options?.high || 5 } };
-                    break;
-            }
-
-            question.required = q.options?.required || false;
+            const question = this.buildQuestion(q.questionType, q.options);
 
             // Add grading for quiz questions
             if (q.correctAnswer && q.points !== undefined) {
@@ -313,6 +251,145 @@ export class FormsService extends GoogleApiService {
         }
     }
 
+    /**
+     * Update a form from Markdown written by FormsConverter.toMarkdown().
+     * Existing questions are updated in place (matched by position) so their
+     * responses stay attached; extra questions are appended and missing ones removed.
+     * A question whose type changed can't be updated and is recreated instead.
+     */
+    async updateForm(formId: string, markdown: string): Promise<void> {
+        const parsed = FormsConverter.parseMarkdown(markdown);
+        const form = await this.getForm(formId);
+        const items = form.items || [];
+        const requests: any[] = [];
+
+        if (parsed.title) {
+            requests.push({
+                updateFormInfo: {
+                    info: { title: parsed.title, description: parsed.description },
+                    updateMask: 'title,description'
+                }
+            });
+        }
+
+        const existing = items
+            .map((item, index) => ({ item, index }))
+            .filter(entry => entry.item.questionItem);
+
+        for (let i = 0; i < Math.min(existing.length, parsed.questions.length); i++) {
+            const { item, index } = existing[i];
+            const source = parsed.questions[i];
+            const question = item.questionItem!.question;
+
+            if (this.isQuestionTypeChange(question, source.type)) {
+                // Delete and create at the same index so later indices stay valid
+                requests.push({ deleteItem: { location: { index } } });
+                requests.push({
+                    createItem: {
+                        item: { title: source.title, questionItem: { question: this.buildSourceQuestion(source) } },
+                        location: { index }
+                    }
+                });
+                continue;
+            }
+
+            const updated: any = { questionId: question.questionId, required: source.required };
+            let updateMask = 'title,questionItem.question.required';
+
+            if (question.choiceQuestion && source.options.length > 0) {
+                updated.choiceQuestion = {
+                    ...question.choiceQuestion,
+                    options: source.options.map(o => o === 'Other...' ? { isOther: true } : { value: o })
+                };
+                updateMask += ',questionItem.question.choiceQuestion';
+            }
+
+            requests.push({
+                updateItem: {
+                    item: { itemId: item.itemId, title: source.title, questionItem: { question: updated } },
+                    location: { index },
+                    updateMask
+                }
+            });
+        }
+
+        parsed.questions.slice(existing.length).forEach((source, i) => {
+            const question = this.buildSourceQuestion(source);
+            requests.push({
+                createItem: {
+                    item: { title: source.title, questionItem: { question } },
+                    location: { index: items.length + i }
+                }
+            });
+        });
+
+        // Delete from the end so earlier indices stay valid
+        const removed = existing.slice(parsed.questions.length).map(entry => entry.index).reverse();
+        for (const index of removed) {
+            requests.push({ deleteItem: { location: { index } } });
+        }
+
+        if (requests.length > 0) {
+            await this.post(`https://forms.googleapis.com/v1/forms/${formId}:batchUpdate`, { requests });
+        }
+    }
+
+    private buildQuestion(
+        questionType: 'SHORT_ANSWER' | 'PARAGRAPH' | 'MULTIPLE_CHOICE' | 'CHECKBOXES' | 'DROPDOWN' | 'SCALE',
+        options?: { choices?: string[]; required?: boolean; low?: number; high?: number }
+    ): any {
+        let question: any = {};
+
+        switch (questionType) {
+            case 'SHORT_ANSWER':
+                question = { textQuestion: { paragraph: false } };
+                break;
+            case 'PARAGRAPH':
+                question = { textQuestion: { paragraph: true } };
+                break;
+            case 'MULTIPLE_CHOICE':
+                question = { choiceQuestion: { type: 'RADIO', options: options?.choices?.map(c => ({ value: c })) || [] } };
+                break;
+            case 'CHECKBOXES':
+                question = { choiceQuestion: { type: 'CHECKBOX', options: options?.choices?.map(c => ({ value: c })) || [] } };
+                break;
+            case 'DROPDOWN':
+                question = { choiceQuestion: { type: 'DROP_DOWN', options: options?.choices?.map(c => ({ value: c })) || [] } };
+                break;
+            case 'SCALE':
+                question = { scaleQuestion: { low: options?.low || 1, high: options?.high || 5 } };
+                break;
+        }
+
+        question.required = options?.required || false;
+        return question;
+    }
+
+    private buildSourceQuestion(source: MarkdownFormQuestion): any {
+        return this.buildQuestion(this.getQuestionTypeFromLabel(source.type), {
+            choices: source.options,
+            required: source.required
+        });
+    }
+
+    /**
+     * Whether the note asks for a different question type than the form has.
+     * Only types that buildQuestion can create are switched to.
+     */
+    private isQuestionTypeChange(question: Question, label: string): boolean {
+        const wanted = label.startsWith('Scale') ? 'Scale' : label;
+        return BUILDABLE_TYPE_LABELS.includes(wanted) && wanted !== this.getQuestionTypeLabel(question);
+    }
+
+    private getQuestionTypeFromLabel(label: string): 'SHORT_ANSWER' | 'PARAGRAPH' | 'MULTIPLE_CHOICE' | 'CHECKBOXES' | 'DROPDOWN' | 'SCALE' {
+        if (label === 'Long Answer') return 'PARAGRAPH';
+        if (label === 'Multiple Choice') return 'MULTIPLE_CHOICE';
+        if (label === 'Checkboxes') return 'CHECKBOXES';
+        if (label === 'Dropdown') return 'DROPDOWN';
+        if (label.startsWith('Scale')) return 'SCALE';
+        return 'SHORT_ANSWER';
+    }
+
     getQuestionTypeLabel(question: Question): string {
         if (question.textQuestion) {
             return question.textQuestion.paragraph ? 'Long Answer' : 'Short Answer';
@@ -6,6 +6,8 @@ export interface ApiRequestOptions {
     method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
     body?: any;
     headers?: Record<string, string>;
+    /** Resolve to the whole response (e.g. for binary downloads) instead of its JSON body */
+    raw?: boolean;
 }
 
 export class GoogleApiService {
@@ -30,7 +32,9 @@ export class GoogleApiService {
             headers
         };
 
-        if (options.body) {
+        if (options.body instanceof ArrayBuffer) {
+            requestOptions.body = options.body;
+        } else if (options.body) {
             requestOptions.body = JSON.stringify(options.body);
         }
 
@@ -51,7 +55,11 @@ export class GoogleApiService {
                 }
 
                 if (response.status >= 200 && response.status < 300) {
-                    return response.json;
+                    if (options.raw) {
+                        return response;
+                    }
+                    // DELETE and similar calls answer with an empty body
+                    return response.text ? response.json : null;
                 }
 
                 throw new Error(`API Error ${response.status}: ${response.text}`);
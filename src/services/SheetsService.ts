@@ -57,6 +57,16 @@ export class SheetsService extends GoogleApiService {
         return await this.get(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}?${params.toString()}`);
     }
 
+    async getSheetTitles(spreadsheetId: string): Promise<string[]> {
+        const params = new URLSearchParams({
+            fields: 'sheets.properties.title'
+        });
+
+        const response = await this.get(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}?${params.toString()}`);
+
+        return (response.sheets || []).map((sheet: Sheet) => sheet.properties.title);
+    }
+
     async getSheetValues(spreadsheetId: string, range: string = 'Sheet1'): Promise<string[][]> {
         const params = new URLSearchParams({
             valueRenderOption: 'FORMATTED_VALUE'
@@ -1,5 +1,6 @@
 import { GoogleApiService } from './GoogleApiService';
 import WorkspaceConnectPlugin from '../../main';
+import { SlidesConverter } from '../converters/SlidesConverter';
 
 export interface GooglePresentation {
     presentationId: string;
@@ -139,6 +140,58 @@ export class SlidesService extends GoogleApiService {
         return slideId;
     }
 
+    /**
+     * Replace every slide in the presentation with slides parsed from Markdown.
+     * Speaker notes, images and custom layouts on the old slides are not kept.
+     */
+    async updatePresentation(presentationId: string, markdown: string): Promise<void> {
+        const slides = SlidesConverter.parseMarkdownToSlides(markdown);
+        if (slides.length === 0) {
+            // Replacing the deck with nothing would wipe it
+            throw new Error('No slides found in this note');
+        }
+
+        const url = `https://slides.googleapis.com/v1/presentations/${presentationId}:batchUpdate`;
+        const presentation = await this.getPresentation(presentationId);
+        const requests: any[] = [];
+
+        const prefix = `slide_${Date.now()}`;
+        slides.forEach((slide, i) => {
+            const slideId = `${prefix}_${i}`;
+            const titleId = `${slideId}_title`;
+            const bodyId = `${slideId}_body`;
+
+            requests.push({
+                createSlide: {
+                    objectId: slideId,
+                    insertionIndex: i,
+                    slideLayoutReference: {
+                        predefinedLayout: 'TITLE_AND_BODY'
+                    },
+                    placeholderIdMappings: [
+                        { layoutPlaceholder: { type: 'TITLE', index: 0 }, objectId: titleId },
+                        { layoutPlaceholder: { type: 'BODY', index: 0 }, objectId: bodyId }
+                    ]
+                }
+            });
+
+            if (slide.title) {
+                requests.push({ insertText: { objectId: titleId, text: slide.title } });
+            }
+            if (slide.body.length > 0) {
+                requests.push({ insertText: { objectId: bodyId, text: slide.body.join('\n') } });
+            }
+        });
+
+        await this.post(url, { requests });
+
+        // Only remove the old slides once the new ones exist
+        const deletes = (presentation.slides || []).map(slide => ({ deleteObject: { objectId: slide.objectId } }));
+        if (deletes.length > 0) {
+            await this.post(url, { requests: deletes });
+        }
+    }
+
     async deleteSlide(presentationId: string, slideObjectId: string): Promise<void> {
         await this.post(`https://slides.googleapis.com/v1/presentations/${presentationId}:batchUpdate`, {
             requests: [{
@@ -0,0 +1,79 @@
+import { TFile } from 'obsidian';
+import WorkspaceConnectPlugin, { LinkedFile } from '../../main';
+
+const GOOGLE_TYPES: LinkedFile['googleFileType'][] = ['docs', 'sheets', 'slides', 'forms'];
+
+/**
+ * Mirrors link metadata into each note's frontmatter so links survive a fresh
+ * clone of the vault or a reset of the plugin data.
+ */
+export class LinkFrontmatter {
+    plugin: WorkspaceConnectPlugin;
+
+    constructor(plugin: WorkspaceConnectPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Write google_id, google_type, google_url and last_synced into the note
+     */
+    async write(file: TFile, linked: LinkedFile): Promise<void> {
+        await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            frontmatter.google_id = linked.googleFileId;
+            frontmatter.google_type = linked.googleFileType;
+            frontmatter.google_url = this.plugin.driveService.getEditUrl(linked.googleFileType, linked.googleFileId);
+            frontmatter.last_synced = linked.lastSyncedAt;
+        });
+    }
+
+    /**
+     * Reconstruct `linkedFiles` from the frontmatter of every note in the vault.
+     * Existing links are matched by path first, then by Google file id (a moved note).
+     */
+    rebuildLinks(): { added: number; updated: number } {
+        const { app, settings } = this.plugin;
+        let added = 0;
+        let updated = 0;
+
+        for (const file of app.vault.getMarkdownFiles()) {
+            const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+            const googleFileId = frontmatter?.google_id;
+            const googleFileType = frontmatter?.google_type;
+            if (typeof googleFileId !== 'string' || !GOOGLE_TYPES.includes(googleFileType)) {
+                continue;
+            }
+
+            const existing = settings.linkedFiles.find(l => l.localPath === file.path)
+                || settings.linkedFiles.find(l => l.googleFileId === googleFileId);
+
+            if (existing) {
+                if (existing.localPath !== file.path || existing.googleFileId !== googleFileId || existing.googleFileType !== googleFileType) {
+                    existing.localPath = file.path;
+                    existing.googleFileId = googleFileId;
+                    existing.googleFileType = googleFileType;
+                    updated++;
+                }
+                continue;
+            }
+
+            settings.linkedFiles.push({
+                localPath: file.path,
+                googleFileId,
+                googleFileType,
+                lastSyncedAt: typeof frontmatter?.last_synced === 'string' ? frontmatter.last_synced : '',
+                googleFileName: file.basename
+            });
+            added++;
+        }
+
+        return { added, updated };
+    }
+
+    /**
+     * Remove a leading YAML frontmatter block so it is never sent to Google
+     */
+    static strip(content: string): string {
+        const match = content.match(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/);
+        return match ? content.slice(match[0].length).replace(/^\r?\n/, '') : content;
+    }
+}
@@ -0,0 +1,89 @@
+import { Notice, TAbstractFile, TFolder } from 'obsidian';
+import WorkspaceConnectPlugin, { LinkedFile } from '../../main';
+import { DeletedNoteModal, DeletedNoteAction } from '../ui/DeletedNoteModal';
+
+/**
+ * Keeps `settings.linkedFiles` pointing at the right notes when they are
+ * renamed, moved or deleted inside the vault.
+ */
+export class LinkTracker {
+    plugin: WorkspaceConnectPlugin;
+
+    constructor(plugin: WorkspaceConnectPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Vault `rename` handler (also fired for moves)
+     */
+    async onRename(file: TAbstractFile, oldPath: string) {
+        let changed = false;
+
+        for (const linked of this.plugin.settings.linkedFiles) {
+            if (linked.localPath === oldPath) {
+                linked.localPath = file.path;
+                changed = true;
+            } else if (file instanceof TFolder && linked.localPath.startsWith(oldPath + '/')) {
+                linked.localPath = file.path + linked.localPath.slice(oldPath.length);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            await this.plugin.saveSettings();
+            this.plugin.refreshWorkspaceViews();
+        }
+    }
+
+    /**
+     * Vault `delete` handler: apply the configured delete policy to affected links
+     */
+    async onDelete(file: TAbstractFile) {
+        const affected = this.plugin.settings.linkedFiles.filter(linked =>
+            linked.localPath === file.path ||
+            (file instanceof TFolder && linked.localPath.startsWith(file.path + '/'))
+        );
+        if (affected.length === 0) return;
+
+        for (const linked of affected) {
+            const policy = this.plugin.settings.deletePolicy;
+            const action: DeletedNoteAction = policy === 'ask'
+                ? await new DeletedNoteModal(this.plugin.app, linked).openAndWait()
+                : policy;
+            await this.applyAction(linked, action);
+        }
+
+        await this.plugin.saveSettings();
+        this.plugin.refreshWorkspaceViews();
+    }
+
+    private async applyAction(linked: LinkedFile, action: DeletedNoteAction) {
+        switch (action) {
+            case 'trash':
+                try {
+                    await this.plugin.driveService.trashFile(linked.googleFileId);
+                } catch (e: any) {
+                    // Keep the link so the Google file can still be found from the Linked Files list
+                    console.error(`Could not trash ${linked.googleFileName}:`, e);
+                    new Notice(`Could not move "${linked.googleFileName}" to trash: ${e.message}`);
+                    return;
+                }
+                this.removeLink(linked);
+                new Notice(`Moved "${linked.googleFileName}" to Google Drive trash`);
+                break;
+            case 'unlink':
+                this.removeLink(linked);
+                new Notice(`Unlinked "${linked.googleFileName}" (note deleted)`);
+                break;
+            default:
+                new Notice(`Kept link to "${linked.googleFileName}"; its note is missing`);
+        }
+    }
+
+    private removeLink(linked: LinkedFile) {
+        const index = this.plugin.settings.linkedFiles.indexOf(linked);
+        if (index > -1) {
+            this.plugin.settings.linkedFiles.splice(index, 1);
+        }
+    }
+}
@@ -0,0 +1,387 @@
+import { TFile } from 'obsidian';
+import WorkspaceConnectPlugin, { LinkedFile, SyncMode } from '../../main';
+import { DocsConverter } from '../converters/DocsConverter';
+import { SheetsConverter } from '../converters/SheetsConverter';
+import { SlidesConverter } from '../converters/SlidesConverter';
+import { FormsConverter } from '../converters/FormsConverter';
+import { GoogleFile } from '../services/DriveService';
+import { ConflictModal } from '../ui/ConflictModal';
+import { ContentHash } from '../utils/ContentHash';
+import { TextMerge, MergeResult } from './TextMerge';
+import { SyncRegion } from './SyncRegion';
+
+export interface SyncResult {
+    status: 'updated' | 'pushed' | 'unchanged' | 'conflict' | 'skipped';
+    conflicts: number;
+}
+
+export interface PullOptions {
+    /** Revision key already fetched by the caller */
+    remoteRevision?: string;
+    /**
+     * Whether the conflict resolution view may be opened. Background runs leave
+     * conflicting notes untouched instead when conflicts are set to "ask".
+     */
+    interactive?: boolean;
+}
+
+export interface SyncOptions {
+    /** See PullOptions.interactive */
+    interactive?: boolean;
+    /**
+     * Files the Drive change feed reported as changed. Links missing from it are
+     * treated as unchanged remotely without asking Drive; null means check each file.
+     */
+    remoteChanges?: Map<string, GoogleFile> | null;
+}
+
+export type SyncPreviewStatus = 'unchanged' | 'remote-changed' | 'local-changed' | 'both-changed' | 'missing';
+
+/**
+ * What a sync of one link would do, computed without writing anything
+ */
+export interface SyncPreview {
+    linked: LinkedFile;
+    status: SyncPreviewStatus;
+    /** Where the sync would write: the local note, the Google file, or nowhere */
+    target: 'note' | 'google' | null;
+    /** Current content of the target */
+    before: string;
+    /** Content the sync would write to the target */
+    after: string;
+    /** Overlapping edits that would need resolving */
+    conflicts: number;
+    /** Set when the link could not be checked */
+    error?: string;
+}
+
+export interface RemoteChangeFeed {
+    /** Changed files by id, or null when every link has to be checked */
+    changed: Map<string, GoogleFile> | null;
+    /** Cursor to store once the run has finished */
+    nextPageToken: string;
+}
+
+/**
+ * Links created before sync modes existed only ever pulled
+ */
+export function getSyncMode(linked: LinkedFile): SyncMode {
+    return linked.syncMode || 'pull';
+}
+
+export class SyncEngine {
+    plugin: WorkspaceConnectPlugin;
+
+    constructor(plugin: WorkspaceConnectPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Fetch the linked Google file and convert it to Markdown. Without
+     * `saveImages`, Docs images aren't saved into the vault.
+     */
+    async fetchRemoteMarkdown(linked: LinkedFile, saveImages: boolean = true): Promise<string> {
+        switch (linked.googleFileType) {
+            case 'docs':
+                const docsData = await this.plugin.docsService.getDocument(linked.googleFileId);
+                return await this.plugin.docsService.toMarkdown(docsData, linked.localPath, saveImages);
+            case 'sheets':
+                const sheetsData = await this.plugin.sheetsService.getSpreadsheet(linked.googleFileId);
+                return SheetsConverter.toMarkdown(sheetsData);
+            case 'slides':
+                const slidesData = await this.plugin.slidesService.getPresentation(linked.googleFileId);
+                return SlidesConverter.toMarkdown(slidesData);
+            case 'forms':
+                const formsData = await this.plugin.formsService.getForm(linked.googleFileId);
+                return FormsConverter.toMarkdown(formsData);
+            default:
+                throw new Error('Unknown file type');
+        }
+    }
+
+    /**
+     * Read the Drive change feed from the stored cursor. Without a cursor (first
+     * run) or when the cursor is rejected, every link is checked individually.
+     */
+    async readChangeFeed(): Promise<RemoteChangeFeed> {
+        const drive = this.plugin.driveService;
+        const pageToken = this.plugin.settings.driveChangesPageToken;
+
+        if (pageToken) {
+            try {
+                const { changes, newStartPageToken } = await drive.listChanges(pageToken);
+                const changed = new Map<string, GoogleFile>();
+                for (const change of changes) {
+                    if (change.file) {
+                        changed.set(change.fileId, change.file);
+                    }
+                }
+                return { changed, nextPageToken: newStartPageToken };
+            } catch (e: any) {
+                console.warn('Drive change feed unavailable, checking every linked file:', e);
+            }
+        }
+
+        // Take the cursor before syncing so changes made during the run are seen next time
+        return { changed: null, nextPageToken: await drive.getStartPageToken() };
+    }
+
+    /**
+     * Sync a linked file in the direction configured on the link. Files whose
+     * Drive revision and note content are both unchanged since the last sync are
+     * skipped without downloading or rewriting anything.
+     */
+    async sync(linked: LinkedFile, file: TFile, options: SyncOptions = {}): Promise<SyncResult> {
+        const interactive = options.interactive;
+        const remoteRevision = await this.resolveRemoteRevision(linked, options.remoteChanges);
+        const local = SyncRegion.extract(await this.plugin.app.vault.read(file));
+
+        // Edits to frontmatter or outside the synced region don't count as local changes
+        const remoteChanged = remoteRevision !== linked.remoteRevision;
+        const localChanged = ContentHash.hash(local) !== linked.localHash;
+
+        switch (getSyncMode(linked)) {
+            case 'push':
+                return localChanged ? this.push(linked, file) : this.unchanged();
+            case 'two-way':
+                if (remoteChanged) {
+                    return this.syncTwoWay(linked, file, { remoteRevision, interactive }, localChanged);
+                }
+                return localChanged ? this.push(linked, file) : this.unchanged();
+            default:
+                return remoteChanged ? this.pull(linked, file, { remoteRevision, interactive }) : this.unchanged();
+        }
+    }
+
+    /**
+     * Work out what `sync()` would do for a link without writing to the note,
+     * the Google file or the link itself
+     */
+    async preview(linked: LinkedFile, file: TFile | null, options: SyncOptions = {}): Promise<SyncPreview> {
+        const preview: SyncPreview = { linked, status: 'missing', target: null, before: '', after: '', conflicts: 0 };
+        if (!file) return preview;
+
+        const remoteRevision = await this.resolveRemoteRevision(linked, options.remoteChanges);
+        const note = await this.plugin.app.vault.read(file);
+        const parts = SyncRegion.split(note);
+
+        const remoteChanged = remoteRevision !== linked.remoteRevision;
+        const localChanged = ContentHash.hash(parts.synced) !== linked.localHash;
+        preview.status = remoteChanged && localChanged ? 'both-changed'
+            : remoteChanged ? 'remote-changed'
+            : localChanged ? 'local-changed'
+            : 'unchanged';
+
+        const mode = getSyncMode(linked);
+        const pulls = remoteChanged && mode !== 'push';
+        const pushes = localChanged && (mode === 'push' || (mode === 'two-way' && !remoteChanged));
+
+        if (pulls) {
+            const remote = await this.fetchRemoteMarkdown(linked, false);
+            const result = this.mergeRemote(linked, parts.synced, remote);
+            preview.target = 'note';
+            preview.before = note;
+            preview.after = SyncRegion.replace(parts, TextMerge.render(result, this.conflictLabels(linked)));
+            preview.conflicts = result.conflicts.length;
+        } else if (pushes) {
+            preview.target = 'google';
+            preview.before = await this.fetchRemoteMarkdown(linked, false);
+            preview.after = parts.synced;
+        }
+
+        return preview;
+    }
+
+    /**
+     * Write the synced region of the local note to the linked Google file
+     */
+    async push(linked: LinkedFile, file: TFile): Promise<SyncResult> {
+        const note = await this.plugin.app.vault.read(file);
+        const local = SyncRegion.extract(note);
+
+        if (TextMerge.hasConflictMarkers(local)) {
+            throw new Error('Resolve conflict markers before pushing');
+        }
+
+        await this.pushContent(linked, local);
+        await this.refreshBase(linked, local);
+        await this.plugin.syncHistory.record(linked, 'push', note);
+        await this.plugin.writeLinkFrontmatter(file, linked);
+
+        return { status: 'pushed', conflicts: 0 };
+    }
+
+    /**
+     * Record that `local` was just written to the linked Google file
+     */
+    async refreshBase(linked: LinkedFile, local: string): Promise<void> {
+        // Conversions are lossy, so the base is what Google now renders rather than the pushed text.
+        // The images in it came from the note, so none are saved again.
+        linked.baseContent = await this.fetchRemoteMarkdown(linked, false);
+        linked.remoteRevision = await this.getRemoteRevision(linked);
+        linked.localHash = ContentHash.hash(local);
+        linked.lastSyncedAt = new Date().toISOString();
+    }
+
+    /**
+     * Send Markdown to the Google API for the link's file type
+     */
+    async pushContent(linked: LinkedFile, markdown: string): Promise<void> {
+        switch (linked.googleFileType) {
+            case 'docs':
+                await this.plugin.docsService.updateDocument(linked.googleFileId, this.withoutAnnotations(linked, markdown), linked.localPath);
+                // Any left in the note now are edits of the user's own
+                linked.suggestionMarkers = undefined;
+                break;
+            case 'sheets':
+                await this.pushSheets(linked, markdown);
+                break;
+            case 'slides':
+                await this.plugin.slidesService.updatePresentation(linked.googleFileId, markdown);
+                break;
+            case 'forms':
+                await this.plugin.formsService.updateForm(linked.googleFileId, markdown);
+                break;
+            default:
+                throw new Error('Unknown file type');
+        }
+    }
+
+    /**
+     * Leave out what a Docs import added to the note besides the document itself.
+     * Suggested edits marked in it look like highlights and strikethrough, so
+     * the note isn't pushed while they are still in it.
+     */
+    private withoutAnnotations(linked: LinkedFile, markdown: string): string {
+        const pending = (linked.suggestionMarkers || []).filter(marker => markdown.includes(marker));
+        if (pending.length > 0) {
+            throw new Error(`Accept or reject the suggested edits marked in this note before pushing, e.g. ${pending[0]}`);
+        }
+        const content = DocsConverter.stripHeaderFooter(markdown);
+        return linked.annotated ? DocsConverter.stripAnnotations(content) : content;
+    }
+
+    /**
+     * Pull and merge remote changes, then push the merged note back if it had
+     * changes of its own. Comparing it with the remote content instead would push
+     * notes that only differ by what an import added, such as comments.
+     */
+    private async syncTwoWay(linked: LinkedFile, file: TFile, options: PullOptions, localChanged: boolean): Promise<SyncResult> {
+        const pulled = await this.pull(linked, file, options);
+
+        // Never push unresolved conflict markers or a merge the user cancelled
+        if (pulled.status === 'conflict' || pulled.status === 'skipped' || !localChanged) {
+            return pulled;
+        }
+
+        return this.push(linked, file);
+    }
+
+    private async resolveRemoteRevision(linked: LinkedFile, remoteChanges?: Map<string, GoogleFile> | null): Promise<string> {
+        // Links never synced (or whose last sync failed) have no revision to compare the feed against
+        if (remoteChanges && linked.remoteRevision) {
+            const changed = remoteChanges.get(linked.googleFileId);
+            return changed ? this.plugin.driveService.getRevisionKey(changed) : linked.remoteRevision;
+        }
+        return this.getRemoteRevision(linked);
+    }
+
+    private async getRemoteRevision(linked: LinkedFile): Promise<string> {
+        const metadata = await this.plugin.driveService.getFileMetadata(linked.googleFileId);
+        return this.plugin.driveService.getRevisionKey(metadata);
+    }
+
+    private unchanged(): SyncResult {
+        return { status: 'unchanged', conflicts: 0 };
+    }
+
+    private async pushSheets(linked: LinkedFile, markdown: string): Promise<void> {
+        const tables = SheetsConverter.extractSheetTables(markdown);
+        if (tables.length === 0) {
+            throw new Error('No tables found in this note');
+        }
+
+        const sheetTitles = await this.plugin.sheetsService.getSheetTitles(linked.googleFileId);
+
+        for (let i = 0; i < tables.length; i++) {
+            const table = tables[i];
+            // Prefer the sheet named by the table's heading; otherwise only the first table maps to the first sheet
+            const sheetTitle = table.sheetTitle && sheetTitles.includes(table.sheetTitle)
+                ? table.sheetTitle
+                : (i === 0 ? sheetTitles[0] : null);
+            if (!sheetTitle) continue;
+
+            await this.plugin.sheetsService.clearSpreadsheet(linked.googleFileId, sheetTitle);
+            await this.plugin.sheetsService.updateSpreadsheet(linked.googleFileId, table.rows, sheetTitle);
+        }
+    }
+
+    /**
+     * Pull remote changes into the synced region of the local note, merging them
+     * with local edits made since the last sync instead of overwriting the note.
+     * Frontmatter and content outside the sync markers are left as they are.
+     */
+    async pull(linked: LinkedFile, file: TFile, options: PullOptions = {}): Promise<SyncResult> {
+        const revision = options.remoteRevision || await this.getRemoteRevision(linked);
+        const remote = await this.fetchRemoteMarkdown(linked);
+        const note = await this.plugin.app.vault.read(file);
+        const parts = SyncRegion.split(note);
+        const local = parts.synced;
+
+        const result = this.mergeRemote(linked, local, remote);
+        const labels = this.conflictLabels(linked);
+
+        let merged: string;
+        // Conflicts written out as markers rather than resolved
+        let unresolved = result.conflicts.length;
+        if (result.conflicts.length > 0 && this.plugin.settings.conflictResolution === 'ask') {
+            if (options.interactive === false) {
+                return { status: 'skipped', conflicts: result.conflicts.length };
+            }
+
+            const resolutions = await new ConflictModal(this.plugin.app, linked, result).openAndWait();
+            if (!resolutions) {
+                // Resolution was cancelled: leave the note and the base snapshot untouched
+                return { status: 'skipped', conflicts: result.conflicts.length };
+            }
+            merged = TextMerge.render(result, labels, resolutions);
+            unresolved = TextMerge.unresolvedConflicts(result, resolutions);
+        } else {
+            merged = TextMerge.render(result, labels);
+        }
+
+        let written = note;
+        if (merged !== local) {
+            written = SyncRegion.replace(parts, merged);
+            await this.plugin.syncHistory.record(linked, 'pull', note);
+            await this.plugin.app.vault.modify(file, written);
+        }
+
+        // The remote content is the new common ancestor; unpushed local edits stay local changes
+        linked.baseContent = remote;
+        linked.remoteRevision = revision;
+        // Hash what the next run will read back, not what was meant to be written
+        linked.localHash = ContentHash.hash(SyncRegion.extract(written));
+        linked.lastSyncedAt = new Date().toISOString();
+        await this.plugin.writeLinkFrontmatter(file, linked);
+
+        if (unresolved > 0) {
+            return { status: 'conflict', conflicts: unresolved };
+        }
+        return { status: merged !== local ? 'updated' : 'unchanged', conflicts: 0 };
+    }
+
+    private mergeRemote(linked: LinkedFile, local: string, remote: string): MergeResult {
+        const localLines = TextMerge.splitLines(local);
+        const remoteLines = TextMerge.splitLines(remote);
+        const baseLines = linked.baseContent !== undefined
+            ? TextMerge.splitLines(linked.baseContent)
+            : TextMerge.commonLines(localLines, remoteLines);
+
+        return TextMerge.merge(baseLines, localLines, remoteLines);
+    }
+
+    private conflictLabels(linked: LinkedFile): { local: string; remote: string } {
+        return { local: 'Local', remote: linked.googleFileName };
+    }
+}
@@ -0,0 +1,87 @@
+import { normalizePath } from 'obsidian';
+import WorkspaceConnectPlugin, { LinkedFile } from '../../main';
+
+/** Snapshots kept per link; older ones are dropped first */
+const MAX_ENTRIES = 20;
+
+export type SyncHistoryDirection = 'pull' | 'push' | 'restore';
+
+export interface SyncHistoryEntry {
+    /** ISO time the snapshot was taken */
+    timestamp: string;
+    direction: SyncHistoryDirection;
+    /** Note path at the time of the snapshot */
+    localPath: string;
+    /** Drive revision key the note was synced with, if known */
+    remoteRevision?: string;
+    /** Note content: before it was overwritten (pull, restore) or as it was pushed (push) */
+    content: string;
+}
+
+/**
+ * Rolling per-link history of note contents, stored as one JSON file per
+ * Google file in the plugin's folder so it survives renames of the note.
+ */
+export class SyncHistory {
+    plugin: WorkspaceConnectPlugin;
+
+    constructor(plugin: WorkspaceConnectPlugin) {
+        this.plugin = plugin;
+    }
+
+    async list(linked: LinkedFile): Promise<SyncHistoryEntry[]> {
+        const adapter = this.plugin.app.vault.adapter;
+        const path = this.getHistoryPath(linked);
+        if (!(await adapter.exists(path))) {
+            return [];
+        }
+
+        try {
+            const entries = JSON.parse(await adapter.read(path));
+            return Array.isArray(entries) ? entries : [];
+        } catch (e: any) {
+            console.error(`Could not read sync history ${path}:`, e);
+            return [];
+        }
+    }
+
+    /**
+     * Add a snapshot. Failures are logged rather than thrown so history can never fail a sync.
+     */
+    async record(linked: LinkedFile, direction: SyncHistoryDirection, content: string): Promise<void> {
+        try {
+            const entries = await this.list(linked);
+            const latest = entries[0];
+            // Nothing to go back to if the note is exactly as last recorded
+            if (latest && latest.content === content && latest.direction === direction) {
+                return;
+            }
+
+            entries.unshift({
+                timestamp: new Date().toISOString(),
+                direction,
+                localPath: linked.localPath,
+                remoteRevision: linked.remoteRevision,
+                content
+            });
+
+            const adapter = this.plugin.app.vault.adapter;
+            const folder = this.getHistoryFolder();
+            if (!(await adapter.exists(folder))) {
+                await adapter.mkdir(folder);
+            }
+            await adapter.write(this.getHistoryPath(linked), JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+        } catch (e: any) {
+            console.error(`Could not record sync history for ${linked.localPath}:`, e);
+        }
+    }
+
+    private getHistoryFolder(): string {
+        const pluginDir = this.plugin.manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${pluginDir}/history`);
+    }
+
+    private getHistoryPath(linked: LinkedFile): string {
+        return normalizePath(`${this.getHistoryFolder()}/${linked.googleFileId}.json`);
+    }
+}
@@ -0,0 +1,75 @@
+import { LinkFrontmatter } from './LinkFrontmatter';
+
+const START_MARKER_LINE = /^%%[ \t]*google-sync:start[ \t]*%%[ \t]*(\r?\n|$)/m;
+const END_MARKER_LINE = /^%%[ \t]*google-sync:end[ \t]*%%[ \t]*$/m;
+
+/**
+ * A note split around the part that is synced with Google.
+ * `before + synced + after` is always the original note.
+ */
+export interface SyncRegionParts {
+    /** Frontmatter, plus everything up to and including the start marker line */
+    before: string;
+    /** Content exchanged with Google */
+    synced: string;
+    /** The line break before the end marker, the end marker line and everything after it */
+    after: string;
+}
+
+/**
+ * Protected region model: frontmatter is never synced, and when a note contains
+ * `%% google-sync:start %%` / `%% google-sync:end %%` markers only the content
+ * between them is. Without markers, the whole body below the frontmatter syncs.
+ */
+export class SyncRegion {
+    static split(content: string): SyncRegionParts {
+        const body = LinkFrontmatter.strip(content);
+        const frontmatter = content.slice(0, content.length - body.length);
+
+        const start = body.match(START_MARKER_LINE);
+        if (!start || start.index === undefined) {
+            return { before: frontmatter, synced: body, after: '' };
+        }
+
+        const syncedStart = start.index + start[0].length;
+        const rest = body.slice(syncedStart);
+        const end = rest.match(END_MARKER_LINE);
+        // An unterminated region runs to the end of the note
+        let syncedLength = end && end.index !== undefined ? end.index : rest.length;
+        if (end) {
+            // The line break that puts the end marker on its own line isn't content
+            const lineBreak = rest.slice(0, syncedLength).match(/\r?\n$/);
+            if (lineBreak) {
+                syncedLength -= lineBreak[0].length;
+            }
+        }
+
+        return {
+            before: frontmatter + body.slice(0, syncedStart),
+            synced: rest.slice(0, syncedLength),
+            after: rest.slice(syncedLength)
+        };
+    }
+
+    /**
+     * The part of a note that is sent to Google
+     */
+    static extract(content: string): string {
+        return SyncRegion.split(content).synced;
+    }
+
+    /**
+     * Put new synced content back between the untouched parts of the note.
+     * `extract` of the result gives back `synced` unchanged.
+     */
+    static replace(parts: SyncRegionParts, synced: string): string {
+        // Keep the markers on their own lines
+        if (parts.after && synced && !/^\r?\n/.test(parts.after)) {
+            synced += '\n';
+        }
+        if (parts.before && synced && !parts.before.endsWith('\n')) {
+            synced = '\n' + synced;
+        }
+        return parts.before + synced + parts.after;
+    }
+}
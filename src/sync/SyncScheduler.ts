@@ -0,0 +1,139 @@
+import { TAbstractFile, TFile } from 'obsidian';
+import WorkspaceConnectPlugin from '../../main';
+import { ContentHash } from '../utils/ContentHash';
+import { SyncRegion } from './SyncRegion';
+
+/** Fraction of the interval added or removed at random so clients don't sync in lockstep */
+const INTERVAL_JITTER = 0.1;
+/** Delay before the startup sync so it doesn't compete with vault loading */
+const STARTUP_DELAY_MS = 10 * 1000;
+/** Quiet period after the last edit of a linked note before it is synced */
+const SAVE_DEBOUNCE_MS = 10 * 1000;
+
+export class SyncScheduler {
+    plugin: WorkspaceConnectPlugin;
+    private intervalTimer: number | null = null;
+    private startupTimer: number | null = null;
+    private saveTimers: Map<string, number> = new Map();
+    private active = false;
+
+    constructor(plugin: WorkspaceConnectPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Start background syncing. `onStartup` runs the vault-open sync if enabled.
+     */
+    start(onStartup: boolean = false) {
+        const { settings } = this.plugin;
+        this.active = true;
+
+        if (onStartup && settings.syncOnStartup && !settings.autoSyncPaused) {
+            this.startupTimer = window.setTimeout(() => {
+                this.startupTimer = null;
+                this.plugin.syncLinkedFiles({ background: true });
+            }, this.withJitter(STARTUP_DELAY_MS));
+        }
+
+        this.scheduleNext();
+    }
+
+    stop() {
+        this.active = false;
+        if (this.intervalTimer !== null) {
+            window.clearTimeout(this.intervalTimer);
+            this.intervalTimer = null;
+        }
+        if (this.startupTimer !== null) {
+            window.clearTimeout(this.startupTimer);
+            this.startupTimer = null;
+        }
+        for (const timer of this.saveTimers.values()) {
+            window.clearTimeout(timer);
+        }
+        this.saveTimers.clear();
+    }
+
+    /**
+     * Apply changed auto-sync settings
+     */
+    restart() {
+        this.stop();
+        this.start();
+    }
+
+    async togglePaused(): Promise<boolean> {
+        this.plugin.settings.autoSyncPaused = !this.plugin.settings.autoSyncPaused;
+        await this.plugin.saveSettings();
+        this.restart();
+        return this.plugin.settings.autoSyncPaused;
+    }
+
+    /**
+     * Vault `modify` handler: sync a linked note once edits to it settle
+     */
+    onFileModified(file: TAbstractFile) {
+        const { settings } = this.plugin;
+        if (!this.active || !settings.syncOnSave || settings.autoSyncPaused) return;
+        if (!(file instanceof TFile)) return;
+        if (!settings.linkedFiles.some(l => l.localPath === file.path)) return;
+
+        this.scheduleSave(file);
+    }
+
+    private scheduleSave(file: TFile) {
+        const existing = this.saveTimers.get(file.path);
+        if (existing !== undefined) {
+            window.clearTimeout(existing);
+        }
+        // Keyed by the path at edit time, as a rename meanwhile changes `file.path`
+        const path = file.path;
+        this.saveTimers.set(path, window.setTimeout(() => this.syncSaved(file, path), SAVE_DEBOUNCE_MS));
+    }
+
+    /**
+     * Sync a note whose edits have settled. The note may have been renamed,
+     * unlinked or deleted meanwhile, and a sync already running means trying
+     * again after another quiet period, so the edit still gets pushed.
+     */
+    private async syncSaved(file: TFile, timerPath: string) {
+        this.saveTimers.delete(timerPath);
+        if (!this.active) return;
+
+        try {
+            const linked = this.plugin.settings.linkedFiles.find(l => l.localPath === file.path);
+            if (!linked) return;
+
+            // Writes made by the sync itself, and edits outside the synced region, leave the hash unchanged
+            const content = SyncRegion.extract(await this.plugin.app.vault.read(file));
+            if (ContentHash.hash(content) === linked.localHash) return;
+
+            const ran = await this.plugin.syncLinkedFiles({ background: true, paths: [file.path] });
+            if (!ran && this.active) {
+                this.scheduleSave(file);
+            }
+        } catch (e) {
+            console.error(`Sync on save failed for ${file.path}:`, e);
+        }
+    }
+
+    private scheduleNext() {
+        const { settings } = this.plugin;
+        if (!this.active || !settings.autoSyncEnabled || settings.autoSyncPaused) return;
+
+        const intervalMs = Math.max(1, settings.autoSyncInterval) * 60 * 1000;
+        this.intervalTimer = window.setTimeout(async () => {
+            this.intervalTimer = null;
+            await this.plugin.syncLinkedFiles({ background: true });
+            // restart() during the run has already scheduled the next one
+            if (this.intervalTimer === null) {
+                this.scheduleNext();
+            }
+        }, this.withJitter(intervalMs));
+    }
+
+    private withJitter(ms: number): number {
+        const jitter = (Math.random() * 2 - 1) * INTERVAL_JITTER * ms;
+        return Math.round(ms + jitter);
+    }
+}
@@ -0,0 +1,304 @@
+export interface DiffHunk {
+    /** First base line replaced by this hunk */
+    baseStart: number;
+    /** Line after the last base line replaced (equal to baseStart for pure insertions) */
+    baseEnd: number;
+    /** Lines that replace base[baseStart, baseEnd) */
+    lines: string[];
+}
+
+export interface StableChunk {
+    kind: 'stable';
+    lines: string[];
+}
+
+export interface ConflictChunk {
+    kind: 'conflict';
+    base: string[];
+    local: string[];
+    remote: string[];
+}
+
+export type MergeChunk = StableChunk | ConflictChunk;
+
+export type ConflictChoice = 'local' | 'remote' | 'both';
+
+export interface DiffLine {
+    /** `gap` stands for unchanged lines left out of the unified view */
+    kind: 'context' | 'added' | 'removed' | 'gap';
+    text: string;
+}
+
+export interface MergeResult {
+    chunks: MergeChunk[];
+    conflicts: ConflictChunk[];
+    /** Number of hunks applied without conflict */
+    autoMerged: number;
+}
+
+export class TextMerge {
+    /**
+     * Split text into lines the same way it is joined back
+     */
+    static splitLines(text: string): string[] {
+        return text.split('\n');
+    }
+
+    /**
+     * Compute the hunks that turn `base` into `other` (line-based LCS)
+     */
+    static diff(base: string[], other: string[]): DiffHunk[] {
+        // Trim common prefix and suffix so the LCS table only covers the changed middle
+        let prefix = 0;
+        while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+            prefix++;
+        }
+
+        let suffix = 0;
+        while (
+            suffix < base.length - prefix &&
+            suffix < other.length - prefix &&
+            base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+        ) {
+            suffix++;
+        }
+
+        const a = base.slice(prefix, base.length - suffix);
+        const b = other.slice(prefix, other.length - suffix);
+
+        if (a.length === 0 && b.length === 0) return [];
+
+        // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+        const width = b.length + 1;
+        const lcs = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i * width + j] = a[i] === b[j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+
+        const hunks: DiffHunk[] = [];
+        let current: DiffHunk | null = null;
+        let i = 0;
+        let j = 0;
+
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                if (current) {
+                    hunks.push(current);
+                    current = null;
+                }
+                i++;
+                j++;
+                continue;
+            }
+
+            if (!current) {
+                current = { baseStart: prefix + i, baseEnd: prefix + i, lines: [] };
+            }
+
+            if (j < b.length && (i >= a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+                current.lines.push(b[j]);
+                j++;
+            } else {
+                i++;
+                current.baseEnd = prefix + i;
+            }
+        }
+
+        if (current) hunks.push(current);
+
+        return hunks;
+    }
+
+    /**
+     * Three-way merge of line arrays. Non-overlapping hunks from either side are
+     * applied automatically; overlapping hunks that differ become conflict chunks.
+     */
+    static merge(base: string[], local: string[], remote: string[]): MergeResult {
+        const localHunks = this.diff(base, local).map(h => ({ ...h, side: 'local' as const }));
+        const remoteHunks = this.diff(base, remote).map(h => ({ ...h, side: 'remote' as const }));
+        const all = [...localHunks, ...remoteHunks].sort((x, y) => x.baseStart - y.baseStart || x.baseEnd - y.baseEnd);
+
+        const chunks: MergeChunk[] = [];
+        const conflicts: ConflictChunk[] = [];
+        let autoMerged = 0;
+        let cursor = 0;
+
+        const pushStable = (lines: string[]) => {
+            if (lines.length === 0) return;
+            const last = chunks[chunks.length - 1];
+            if (last && last.kind === 'stable') {
+                last.lines.push(...lines);
+            } else {
+                chunks.push({ kind: 'stable', lines: [...lines] });
+            }
+        };
+
+        let k = 0;
+        while (k < all.length) {
+            // Collect every hunk that touches the region of the first one (transitively)
+            const group = [all[k]];
+            let start = all[k].baseStart;
+            let end = all[k].baseEnd;
+            k++;
+            while (k < all.length && all[k].baseStart <= end) {
+                group.push(all[k]);
+                start = Math.min(start, all[k].baseStart);
+                end = Math.max(end, all[k].baseEnd);
+                k++;
+            }
+
+            pushStable(base.slice(cursor, start));
+            cursor = end;
+
+            const localGroup = group.filter(h => h.side === 'local');
+            const remoteGroup = group.filter(h => h.side === 'remote');
+            const localRegion = this.applyHunks(base, localGroup, start, end);
+            const remoteRegion = this.applyHunks(base, remoteGroup, start, end);
+
+            if (remoteGroup.length === 0) {
+                pushStable(localRegion);
+                autoMerged += localGroup.length;
+            } else if (localGroup.length === 0) {
+                pushStable(remoteRegion);
+                autoMerged += remoteGroup.length;
+            } else if (localRegion.join('\n') === remoteRegion.join('\n')) {
+                // Both sides made the same change
+                pushStable(localRegion);
+                autoMerged += group.length;
+            } else {
+                const conflict: ConflictChunk = {
+                    kind: 'conflict',
+                    base: base.slice(start, end),
+                    local: localRegion,
+                    remote: remoteRegion
+                };
+                chunks.push(conflict);
+                conflicts.push(conflict);
+            }
+        }
+
+        pushStable(base.slice(cursor));
+
+        return { chunks, conflicts, autoMerged };
+    }
+
+    /**
+     * Lines shared by both versions (in LCS order). Used as a stand-in base when
+     * no snapshot exists yet, so that neither side's additions are dropped.
+     */
+    static commonLines(a: string[], b: string[]): string[] {
+        const common: string[] = [];
+        let aIndex = 0;
+
+        for (const hunk of this.diff(a, b)) {
+            common.push(...a.slice(aIndex, hunk.baseStart));
+            aIndex = hunk.baseEnd;
+        }
+        common.push(...a.slice(aIndex));
+
+        return common;
+    }
+
+    /**
+     * Render merge chunks back to text. Conflicts without a resolution are written
+     * as git-style conflict markers.
+     */
+    static render(
+        result: MergeResult,
+        labels: { local: string; remote: string },
+        resolutions?: Map<ConflictChunk, ConflictChoice>
+    ): string {
+        const lines: string[] = [];
+
+        for (const chunk of result.chunks) {
+            if (chunk.kind === 'stable') {
+                lines.push(...chunk.lines);
+                continue;
+            }
+
+            const choice = resolutions?.get(chunk);
+            if (choice === 'local') {
+                lines.push(...chunk.local);
+            } else if (choice === 'remote') {
+                lines.push(...chunk.remote);
+            } else if (choice === 'both') {
+                lines.push(...chunk.local, ...chunk.remote);
+            } else {
+                lines.push(`<<<<<<< ${labels.local}`);
+                lines.push(...chunk.local);
+                lines.push('=======');
+                lines.push(...chunk.remote);
+                lines.push(`>>>>>>> ${labels.remote}`);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Number of conflicts `render` writes as markers for these resolutions
+     */
+    static unresolvedConflicts(result: MergeResult, resolutions?: Map<ConflictChunk, ConflictChoice>): number {
+        return result.conflicts.filter(conflict => !resolutions?.has(conflict)).length;
+    }
+
+    /**
+     * Check whether text still contains unresolved conflict markers
+     */
+    static hasConflictMarkers(text: string): boolean {
+        return /^<{7} .*\n[\s\S]*?^={7}$[\s\S]*?^>{7} /m.test(text);
+    }
+
+    /**
+     * Unified diff of two texts, keeping `context` unchanged lines around each change
+     */
+    static unifiedDiff(before: string, after: string, context: number = 3): DiffLine[] {
+        const a = this.splitLines(before);
+        const b = this.splitLines(after);
+        const lines: DiffLine[] = [];
+        let cursor = 0;
+
+        const pushContext = (from: number, to: number, isFirst: boolean, isLast: boolean) => {
+            const keepHead = isFirst ? 0 : context;
+            const keepTail = isLast ? 0 : context;
+            if (to - from <= keepHead + keepTail) {
+                a.slice(from, to).forEach(text => lines.push({ kind: 'context', text }));
+                return;
+            }
+            a.slice(from, from + keepHead).forEach(text => lines.push({ kind: 'context', text }));
+            lines.push({ kind: 'gap', text: `${to - from - keepHead - keepTail} unchanged line(s)` });
+            a.slice(to - keepTail, to).forEach(text => lines.push({ kind: 'context', text }));
+        };
+
+        const hunks = this.diff(a, b);
+        hunks.forEach((hunk, index) => {
+            pushContext(cursor, hunk.baseStart, index === 0, false);
+            a.slice(hunk.baseStart, hunk.baseEnd).forEach(text => lines.push({ kind: 'removed', text }));
+            hunk.lines.forEach(text => lines.push({ kind: 'added', text }));
+            cursor = hunk.baseEnd;
+        });
+        if (hunks.length > 0) {
+            pushContext(cursor, a.length, false, true);
+        }
+
+        return lines;
+    }
+
+    private static applyHunks(base: string[], hunks: DiffHunk[], start: number, end: number): string[] {
+        const region: string[] = [];
+        let cursor = start;
+
+        for (const hunk of hunks) {
+            region.push(...base.slice(cursor, hunk.baseStart));
+            region.push(...hunk.lines);
+            cursor = hunk.baseEnd;
+        }
+        region.push(...base.slice(cursor, end));
+
+        return region;
+    }
+}
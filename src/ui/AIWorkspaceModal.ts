@@ -1,8 +1,9 @@
 import { App, Modal, Notice, TFile, Setting, MarkdownView } from 'obsidian';
-import WorkspaceConnectPlugin from '../../main';
+import WorkspaceConnectPlugin, { LinkedFile } from '../../main';
 import { NoteAnalyzer, NoteAnalysis, DocsAnalysis, SheetsAnalysis, SlidesAnalysis, FormsAnalysis, DetectedQuestion } from '../ai/NoteAnalyzer';
 import { GoogleFilePicker } from './GoogleFilePicker';
 import { SheetsConverter } from '../converters/SheetsConverter';
+import { SyncRegion } from '../sync/SyncRegion';
 
 type TabType = 'docs' | 'sheets' | 'slides' | 'forms';
 type SheetsMode = 'export' | 'import';
@@ -28,6 +29,8 @@ interface FormSettings {
 interface DocsSettings {
     title: string;
     includeTableOfContents: boolean;
+    /** One document tab per H1 section */
+    splitIntoTabs: boolean;
     pageSize: 'letter' | 'a4';
 }
 
@@ -88,7 +91,8 @@ export class AIWorkspaceModal extends Modal {
         this.docsSettings = {
             title: '',
             includeTableOfContents: false,
-            pageSize: 'letter',
+            splitIntoTabs: this.plugin.settings.exportH1AsTabs,
+            pageSize: this.plugin.settings.docsPageSize,
         };
         this.sheetsSettings = {
             title: '',
@@ -169,16 +173,18 @@ export class AIWorkspaceModal extends Modal {
         }
     }
 
-    private linkFile(googleFileId: string, googleFileType: 'docs' | 'sheets' | 'slides' | 'forms', googleFileName: string) {
+    private async linkFile(googleFileId: string, googleFileType: 'docs' | 'sheets' | 'slides' | 'forms', googleFileName: string) {
         if (!this.noteFile) return;
-        this.plugin.settings.linkedFiles.push({
+        const link: LinkedFile = {
             localPath: this.noteFile.path,
             googleFileId,
             googleFileType,
             lastSyncedAt: new Date().toISOString(),
             googleFileName,
-        });
-        this.plugin.saveSettings();
+        };
+        // The new file only holds what was exported, so Google's rendering of it is the merge base
+        await this.plugin.syncEngine.refreshBase(link, SyncRegion.extract(this.noteContent));
+        await this.plugin.addLinkedFile(this.noteFile, link);
     }
 
     private renderModal() {
@@ -254,6 +260,8 @@ export class AIWorkspaceModal extends Modal {
             .addText(text => text.setValue(this.docsSettings.title).onChange(v => { this.docsSettings.title = v; }));
         new Setting(settingsContainer).setName('Include Table of Contents')
             .addToggle(toggle => toggle.setValue(this.docsSettings.includeTableOfContents).onChange(v => { this.docsSettings.includeTableOfContents = v; }));
+        new Setting(settingsContainer).setName('One Tab per H1 Section')
+            .addToggle(toggle => toggle.setValue(this.docsSettings.splitIntoTabs).onChange(v => { this.docsSettings.splitIntoTabs = v; }));
         new Setting(settingsContainer).setName('Page Size')
             .addDropdown(dd => dd.addOption('letter', 'Letter').addOption('a4', 'A4')
                 .setValue(this.docsSettings.pageSize).onChange(v => { this.docsSettings.pageSize = v as 'letter' | 'a4'; }));
@@ -277,9 +285,13 @@ export class AIWorkspaceModal extends Modal {
         if (!this.plugin.isAuthenticated()) { new Notice('Please connect to Google first in settings'); return; }
         try {
             new Notice('Creating Google Doc...');
-            const docId = await this.plugin.docsService.createDocument(this.docsSettings.title, this.noteContent);
+            const docId = await this.plugin.docsService.createDocument(this.docsSettings.title, SyncRegion.extract(this.noteContent), this.noteFile?.path, {
+                tableOfContents: this.docsSettings.includeTableOfContents,
+                tabs: this.docsSettings.splitIntoTabs,
+                pageSize: this.docsSettings.pageSize
+            });
             await this.moveToConfiguredFolder(docId);
-            this.linkFile(docId, 'docs', this.docsSettings.title);
+            await this.linkFile(docId, 'docs', this.docsSettings.title);
 
             if (embedAtCursor) {
                 const embed = [
@@ -451,7 +463,7 @@ export class AIWorkspaceModal extends Modal {
             }
             const sheetId = await this.plugin.sheetsService.createSpreadsheet(this.sheetsSettings.title, data);
             await this.moveToConfiguredFolder(sheetId);
-            this.linkFile(sheetId, 'sheets', this.sheetsSettings.title);
+            await this.linkFile(sheetId, 'sheets', this.sheetsSettings.title);
 
             if (embedAtCursor) {
                 const embed = [
@@ -505,7 +517,7 @@ export class AIWorkspaceModal extends Modal {
                         savedEditor.replaceRange('\n' + markdownTable + '\n', { line: savedCursorLine, ch: savedCursorCh });
                     }
 
-                    this.linkFile(selectedFile.id, 'sheets', selectedFile.name);
+                    await this.linkFile(selectedFile.id, 'sheets', selectedFile.name);
                     new Notice(`Imported ${values.length} rows from "${selectedFile.name}"`);
                 } catch (e: any) { new Notice(`Import failed: ${e.message}`); }
             }).open();
@@ -577,7 +589,7 @@ export class AIWorkspaceModal extends Modal {
                 });
             }
             await this.moveToConfiguredFolder(presentationId);
-            this.linkFile(presentationId, 'slides', this.slidesSettings.title);
+            await this.linkFile(presentationId, 'slides', this.slidesSettings.title);
 
             if (embedAtCursor) {
                 const embed = [
@@ -864,7 +876,7 @@ export class AIWorkspaceModal extends Modal {
 
             await this.plugin.formsService.addQuestionBatch(formId, batchQuestions);
             await this.moveToConfiguredFolder(formId);
-            this.linkFile(formId, 'forms', formTitle);
+            await this.linkFile(formId, 'forms', formTitle);
 
             const infoCount = batchQuestions.length - filteredQuestions.length;
             const totalPoints = isQuiz ? filteredQuestions.length * this.formSettings.pointsPerQuestion : 0;
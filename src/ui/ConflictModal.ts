@@ -0,0 +1,98 @@
+import { App, Modal } from 'obsidian';
+import { LinkedFile } from '../../main';
+import { MergeResult, ConflictChunk, ConflictChoice } from '../sync/TextMerge';
+
+export class ConflictModal extends Modal {
+    linked: LinkedFile;
+    result: MergeResult;
+    private resolutions: Map<ConflictChunk, ConflictChoice> = new Map();
+    private resolve: ((resolutions: Map<ConflictChunk, ConflictChoice> | null) => void) | null = null;
+
+    constructor(app: App, linked: LinkedFile, result: MergeResult) {
+        super(app);
+        this.linked = linked;
+        this.result = result;
+    }
+
+    /**
+     * Open the modal and wait for the user's choices.
+     * Resolves to null when the modal is closed without applying.
+     */
+    openAndWait(): Promise<Map<ConflictChunk, ConflictChoice> | null> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('sync-conflict-modal');
+
+        contentEl.createEl('h2', { text: 'Resolve Sync Conflicts' });
+        contentEl.createEl('p', {
+            text: `${this.linked.localPath} and ${this.linked.googleFileName} both changed the same lines. ` +
+                `${this.result.autoMerged} non-overlapping change(s) were merged automatically.`,
+            cls: 'setting-item-description'
+        });
+
+        this.result.conflicts.forEach((conflict, index) => {
+            const card = contentEl.createDiv({ cls: 'sync-conflict-card' });
+            card.createEl('h4', { text: `Conflict ${index + 1} of ${this.result.conflicts.length}` });
+
+            const sides = card.createDiv({ cls: 'sync-conflict-sides' });
+            this.renderSide(sides, 'Local', conflict.local);
+            this.renderSide(sides, this.linked.googleFileName, conflict.remote);
+
+            const choices = card.createDiv({ cls: 'sync-conflict-choices' });
+            const options: { choice: ConflictChoice; label: string }[] = [
+                { choice: 'local', label: 'Keep local' },
+                { choice: 'remote', label: 'Use Google' },
+                { choice: 'both', label: 'Keep both' }
+            ];
+
+            const buttons: HTMLButtonElement[] = [];
+            for (const { choice, label } of options) {
+                const btn = choices.createEl('button', { text: label });
+                buttons.push(btn);
+                btn.addEventListener('click', () => {
+                    this.resolutions.set(conflict, choice);
+                    buttons.forEach(b => b.removeClass('mod-cta'));
+                    btn.addClass('mod-cta');
+                });
+            }
+        });
+
+        const footer = contentEl.createDiv({ cls: 'sync-conflict-footer' });
+        const markersBtn = footer.createEl('button', { text: 'Write conflict markers' });
+        markersBtn.addEventListener('click', () => this.finish(new Map()));
+
+        const applyBtn = footer.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+        applyBtn.addEventListener('click', () => this.finish(this.resolutions));
+    }
+
+    private renderSide(container: HTMLElement, label: string, lines: string[]) {
+        const side = container.createDiv({ cls: 'sync-conflict-side' });
+        side.createEl('div', { text: label, cls: 'sync-conflict-label' });
+        side.createEl('pre', { text: lines.length > 0 ? lines.join('\n') : '(deleted)' });
+    }
+
+    private finish(resolutions: Map<ConflictChunk, ConflictChoice> | null) {
+        if (this.resolve) {
+            this.resolve(resolutions);
+            this.resolve = null;
+        }
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        // Closing without applying leaves the note untouched
+        if (this.resolve) {
+            this.resolve(null);
+            this.resolve = null;
+        }
+    }
+}
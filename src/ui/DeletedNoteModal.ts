@@ -0,0 +1,63 @@
+import { App, Modal } from 'obsidian';
+import { LinkedFile } from '../../main';
+
+export type DeletedNoteAction = 'keep' | 'unlink' | 'trash';
+
+export class DeletedNoteModal extends Modal {
+    linked: LinkedFile;
+    private resolve: ((action: DeletedNoteAction) => void) | null = null;
+
+    constructor(app: App, linked: LinkedFile) {
+        super(app);
+        this.linked = linked;
+    }
+
+    /**
+     * Open the modal and wait for a choice. Dismissing it keeps the link.
+     */
+    openAndWait(): Promise<DeletedNoteAction> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('deleted-note-modal');
+
+        contentEl.createEl('h2', { text: 'Linked Note Deleted' });
+        contentEl.createEl('p', {
+            text: `${this.linked.localPath} was linked to the Google file "${this.linked.googleFileName}". What should happen to the link?`
+        });
+
+        const buttons = contentEl.createDiv({ cls: 'deleted-note-actions' });
+
+        const keepBtn = buttons.createEl('button', { text: 'Keep link' });
+        keepBtn.addEventListener('click', () => this.finish('keep'));
+
+        const unlinkBtn = buttons.createEl('button', { text: 'Unlink', cls: 'mod-cta' });
+        unlinkBtn.addEventListener('click', () => this.finish('unlink'));
+
+        const trashBtn = buttons.createEl('button', { text: 'Move Google file to trash', cls: 'mod-warning' });
+        trashBtn.addEventListener('click', () => this.finish('trash'));
+    }
+
+    private finish(action: DeletedNoteAction) {
+        if (this.resolve) {
+            this.resolve(action);
+            this.resolve = null;
+        }
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (this.resolve) {
+            this.resolve('keep');
+            this.resolve = null;
+        }
+    }
+}
@@ -0,0 +1,22 @@
+import { TextMerge } from '../sync/TextMerge';
+
+export class DiffView {
+    /**
+     * Render a unified line diff of two texts into `container`
+     */
+    static render(container: HTMLElement, before: string, after: string) {
+        const lines = TextMerge.unifiedDiff(before, after);
+        const pre = container.createEl('pre', { cls: 'sync-preview-diff' });
+
+        if (lines.length === 0) {
+            pre.createDiv({ text: 'No changes to the text', cls: 'sync-diff-gap' });
+            return;
+        }
+
+        for (const line of lines) {
+            const prefix = line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  ';
+            const text = line.kind === 'gap' ? `… ${line.text} …` : prefix + line.text;
+            pre.createDiv({ text, cls: `sync-diff-${line.kind}` });
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { Modal, Notice, TFile } from 'obsidian';
+import WorkspaceConnectPlugin, { LinkedFile } from '../../main';
+import { SyncHistoryEntry, SyncHistoryDirection } from '../sync/SyncHistory';
+import { DiffView } from './DiffView';
+
+const DIRECTION_LABELS: Record<SyncHistoryDirection, string> = {
+    'pull': 'Before pull from Google',
+    'push': 'Pushed to Google',
+    'restore': 'Before restore'
+};
+
+export class SyncHistoryModal extends Modal {
+    plugin: WorkspaceConnectPlugin;
+    linked: LinkedFile;
+
+    constructor(plugin: WorkspaceConnectPlugin, linked: LinkedFile) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.linked = linked;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('sync-preview-modal');
+
+        contentEl.createEl('h2', { text: 'Sync History' });
+        contentEl.createEl('p', {
+            text: `Earlier versions of ${this.linked.localPath}, newest first.`,
+            cls: 'setting-item-description'
+        });
+
+        const entries = await this.plugin.syncHistory.list(this.linked);
+        if (entries.length === 0) {
+            contentEl.createEl('p', { text: 'No history yet. A snapshot is taken whenever a sync overwrites or pushes this note.', cls: 'empty-state' });
+            return;
+        }
+
+        const list = contentEl.createDiv({ cls: 'sync-preview-list' });
+        for (const entry of entries) {
+            this.renderEntry(list, entry);
+        }
+    }
+
+    private renderEntry(container: HTMLElement, entry: SyncHistoryEntry) {
+        const row = container.createDiv({ cls: 'sync-preview-row' });
+        const header = row.createDiv({ cls: 'sync-preview-header' });
+
+        header.createSpan({ text: new Date(entry.timestamp).toLocaleString(), cls: 'sync-preview-path' });
+        header.createSpan({ text: DIRECTION_LABELS[entry.direction], cls: 'sync-preview-status' });
+
+        const compareBtn = header.createEl('button', { text: 'Compare' });
+        const restoreBtn = header.createEl('button', { text: 'Restore' });
+
+        if (entry.remoteRevision) {
+            row.createDiv({ text: `Drive revision ${entry.remoteRevision}`, cls: 'sync-preview-detail' });
+        }
+
+        const diffContainer = row.createDiv({ cls: 'sync-preview-detail' });
+        compareBtn.addEventListener('click', async () => {
+            if (diffContainer.childElementCount > 0) {
+                diffContainer.empty();
+                return;
+            }
+            const file = this.getNoteFile();
+            if (!file) return;
+            // Lines prefixed with + are what restoring would bring back
+            DiffView.render(diffContainer, await this.app.vault.read(file), entry.content);
+        });
+
+        restoreBtn.addEventListener('click', () => this.restore(entry));
+    }
+
+    private async restore(entry: SyncHistoryEntry) {
+        const file = this.getNoteFile();
+        if (!file) return;
+
+        const current = await this.app.vault.read(file);
+        if (current === entry.content) {
+            new Notice('The note already matches this version');
+            return;
+        }
+
+        // The version being replaced becomes restorable too
+        await this.plugin.syncHistory.record(this.linked, 'restore', current);
+        await this.app.vault.modify(file, entry.content);
+        new Notice(`Restored ${this.linked.localPath} from ${new Date(entry.timestamp).toLocaleString()}`);
+        this.close();
+    }
+
+    private getNoteFile(): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(this.linked.localPath);
+        if (file instanceof TFile) {
+            return file;
+        }
+        new Notice('Local file not found');
+        return null;
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,139 @@
+import { App, Modal } from 'obsidian';
+import { LinkedFile } from '../../main';
+import { SyncPreview, SyncPreviewStatus } from '../sync/SyncEngine';
+import { DiffView } from './DiffView';
+
+const STATUS_LABELS: Record<SyncPreviewStatus, string> = {
+    'unchanged': 'Unchanged',
+    'remote-changed': 'Google changed',
+    'local-changed': 'Note changed',
+    'both-changed': 'Both changed',
+    'missing': 'Note missing'
+};
+
+export class SyncPreviewModal extends Modal {
+    previews: SyncPreview[];
+    private selected: Set<SyncPreview> = new Set();
+    private syncBtn: HTMLButtonElement | null = null;
+    private resolve: ((selected: LinkedFile[] | null) => void) | null = null;
+
+    constructor(app: App, previews: SyncPreview[]) {
+        super(app);
+        this.previews = previews;
+        // Files that would change are selected by default
+        for (const preview of previews) {
+            if (preview.target && !preview.error) {
+                this.selected.add(preview);
+            }
+        }
+    }
+
+    /**
+     * Open the modal and wait for the user's selection.
+     * Resolves to null when the modal is closed without syncing.
+     */
+    openAndWait(): Promise<LinkedFile[] | null> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('sync-preview-modal');
+
+        const changed = this.previews.filter(p => p.target).length;
+        contentEl.createEl('h2', { text: 'Sync Preview' });
+        contentEl.createEl('p', {
+            text: `${changed} of ${this.previews.length} linked file(s) would change. Nothing has been written yet.`,
+            cls: 'setting-item-description'
+        });
+
+        const list = contentEl.createDiv({ cls: 'sync-preview-list' });
+        for (const preview of this.previews) {
+            this.renderRow(list, preview);
+        }
+
+        const footer = contentEl.createDiv({ cls: 'sync-conflict-footer' });
+        const cancelBtn = footer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.finish(null));
+
+        this.syncBtn = footer.createEl('button', { cls: 'mod-cta' });
+        this.syncBtn.addEventListener('click', () => {
+            this.finish(this.previews.filter(p => this.selected.has(p)).map(p => p.linked));
+        });
+        this.updateSyncButton();
+    }
+
+    private renderRow(container: HTMLElement, preview: SyncPreview) {
+        const row = container.createDiv({ cls: 'sync-preview-row' });
+        const header = row.createDiv({ cls: 'sync-preview-header' });
+
+        const checkbox = header.createEl('input', { type: 'checkbox' });
+        checkbox.checked = this.selected.has(preview);
+        checkbox.disabled = preview.status === 'missing' || !!preview.error;
+        checkbox.addEventListener('change', () => {
+            if (checkbox.checked) {
+                this.selected.add(preview);
+            } else {
+                this.selected.delete(preview);
+            }
+            this.updateSyncButton();
+        });
+
+        header.createSpan({ text: preview.linked.localPath, cls: 'sync-preview-path' });
+        header.createSpan({
+            text: preview.error ? 'Error' : STATUS_LABELS[preview.status],
+            cls: `sync-preview-status sync-preview-${preview.error ? 'error' : preview.status}`
+        });
+
+        if (preview.error) {
+            row.createDiv({ text: preview.error, cls: 'sync-preview-detail' });
+            return;
+        }
+
+        if (!preview.target) return;
+
+        let detail = preview.target === 'note' ? 'Updates the local note' : `Pushes to ${preview.linked.googleFileName}`;
+        if (preview.conflicts > 0) {
+            detail += ` (${preview.conflicts} conflict(s) to resolve)`;
+        }
+        row.createDiv({ text: detail, cls: 'sync-preview-detail' });
+
+        const details = row.createEl('details');
+        details.createEl('summary', { text: 'Show diff' });
+        // Diffs are only computed when opened
+        details.addEventListener('toggle', () => {
+            if (details.open && details.childElementCount === 1) {
+                DiffView.render(details, preview.before, preview.after);
+            }
+        }, { once: true });
+    }
+
+    private updateSyncButton() {
+        if (this.syncBtn) {
+            this.syncBtn.setText(`Sync selected (${this.selected.size})`);
+            this.syncBtn.disabled = this.selected.size === 0;
+        }
+    }
+
+    private finish(selected: LinkedFile[] | null) {
+        if (this.resolve) {
+            this.resolve(selected);
+            this.resolve = null;
+        }
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        // Closing without syncing leaves everything untouched
+        if (this.resolve) {
+            this.resolve(null);
+            this.resolve = null;
+        }
+    }
+}
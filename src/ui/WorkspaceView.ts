@@ -1,12 +1,10 @@
-import { ItemView, WorkspaceLeaf, Notice, Menu } from 'obsidian';
-import WorkspaceConnectPlugin, { LinkedFile } from '../../main';
+import { ItemView, WorkspaceLeaf, Notice, Menu, TFile } from 'obsidian';
+import WorkspaceConnectPlugin, { LinkedFile, SyncMode } from '../../main';
 import { GoogleFile } from '../services/DriveService';
 import { GoogleFilePicker } from './GoogleFilePicker';
 import { AIWorkspaceModal } from './AIWorkspaceModal';
-import { DocsConverter } from '../converters/DocsConverter';
-import { SheetsConverter } from '../converters/SheetsConverter';
-import { SlidesConverter } from '../converters/SlidesConverter';
-import { FormsConverter } from '../converters/FormsConverter';
+import { SyncHistoryModal } from './SyncHistoryModal';
+import { getSyncMode } from '../sync/SyncEngine';
 
 export const WORKSPACE_VIEW_TYPE = 'workspace-connect-view';
 
@@ -139,7 +137,8 @@ export class WorkspaceView extends ItemView {
         }
     }
 
-    private renderLinkedFiles() {
+    renderLinkedFiles() {
+        if (!this.fileListContainer) return;
         this.fileListContainer.empty();
 
         const linkedFiles = this.plugin.settings.linkedFiles;
@@ -154,6 +153,10 @@ export class WorkspaceView extends ItemView {
 
         for (const linked of linkedFiles) {
             const item = this.fileListContainer.createDiv({ cls: 'linked-file-item' });
+            const localMissing = !this.app.vault.getAbstractFileByPath(linked.localPath);
+            if (localMissing) {
+                item.addClass('linked-file-missing');
+            }
 
             // Icon
             const icon = this.getTypeIcon(linked.googleFileType);
@@ -163,9 +166,15 @@ export class WorkspaceView extends ItemView {
             const info = item.createDiv({ cls: 'linked-info' });
             info.createEl('div', { text: linked.googleFileName, cls: 'linked-name' });
             info.createEl('div', {
-                text: `→ ${linked.localPath}`,
+                text: `${this.getSyncModeArrow(getSyncMode(linked))} ${linked.localPath}`,
                 cls: 'linked-path'
             });
+            if (localMissing) {
+                info.createEl('div', {
+                    text: '⚠ Local note missing',
+                    cls: 'linked-missing'
+                });
+            }
 
             // Actions
             const actions = item.createDiv({ cls: 'linked-actions' });
@@ -201,7 +210,7 @@ export class WorkspaceView extends ItemView {
                 attr: { 'aria-label': 'Sync this file' }
             });
             syncBtn.addEventListener('click', async () => {
-                await this.syncSingleFile(linked);
+                await this.syncSingleFile(linked, 'configured');
             });
 
             // Context menu
@@ -222,61 +231,58 @@ export class WorkspaceView extends ItemView {
         }
     }
 
+    private getSyncModeArrow(mode: SyncMode): string {
+        switch (mode) {
+            case 'push': return '←';
+            case 'two-way': return '⇄';
+            default: return '→';
+        }
+    }
+
     private getGoogleUrl(linked: LinkedFile): string {
-        switch (linked.googleFileType) {
-            case 'docs':
-                return `https://docs.google.com/document/d/${linked.googleFileId}/edit`;
-            case 'sheets':
-                return `https://docs.google.com/spreadsheets/d/${linked.googleFileId}/edit`;
-            case 'slides':
-                return `https://docs.google.com/presentation/d/${linked.googleFileId}/edit`;
-            case 'forms':
-                return `https://docs.google.com/forms/d/${linked.googleFileId}/edit`;
-            default:
-                return `https://drive.google.com/file/d/${linked.googleFileId}`;
+        return this.plugin.driveService.getEditUrl(linked.googleFileType, linked.googleFileId);
+    }
+
+    private async syncSingleFile(linked: LinkedFile, direction: 'configured' | 'pull' | 'push') {
+        const ran = await this.plugin.withSyncLock(() => this.runSingleFileSync(linked, direction));
+        if (!ran) {
+            new Notice('A sync is already in progress');
         }
     }
 
-    private async syncSingleFile(linked: LinkedFile) {
+    private async runSingleFileSync(linked: LinkedFile, direction: 'configured' | 'pull' | 'push') {
         try {
             new Notice(`Syncing ${linked.googleFileName}...`);
 
             const localFile = this.app.vault.getAbstractFileByPath(linked.localPath);
-            if (!localFile) {
+            if (!localFile || !(localFile instanceof TFile)) {
                 new Notice('Local file not found');
                 return;
             }
 
-            let content: any;
-            let markdown: string;
+            const engine = this.plugin.syncEngine;
+            const result = direction === 'pull' ? await engine.pull(linked, localFile)
+                : direction === 'push' ? await engine.push(linked, localFile)
+                : await engine.sync(linked, localFile);
+            await this.plugin.saveSettings();
 
-            switch (linked.googleFileType) {
-                case 'docs':
-                    content = await this.plugin.docsService.getDocument(linked.googleFileId);
-                    markdown = DocsConverter.toMarkdown(content);
+            switch (result.status) {
+                case 'pushed':
+                    new Notice(`Pushed to Google: ${linked.googleFileName}`);
                     break;
-                case 'sheets':
-                    content = await this.plugin.sheetsService.getSpreadsheet(linked.googleFileId);
-                    markdown = SheetsConverter.toMarkdown(content);
+                case 'unchanged':
+                    new Notice(`Already up to date: ${linked.googleFileName}`);
                     break;
-                case 'slides':
-                    content = await this.plugin.slidesService.getPresentation(linked.googleFileId);
-                    markdown = SlidesConverter.toMarkdown(content);
+                case 'conflict':
+                    new Notice(`Synced with ${result.conflicts} conflict(s): ${linked.googleFileName}`);
                     break;
-                case 'forms':
-                    content = await this.plugin.formsService.getForm(linked.googleFileId);
-                    markdown = FormsConverter.toMarkdown(content);
+                case 'skipped':
+                    new Notice(`Sync cancelled: ${linked.googleFileName}`);
                     break;
                 default:
-                    throw new Error('Unknown file type');
+                    new Notice(`Synced: ${linked.googleFileName}`);
             }
 
-            await this.app.vault.modify(localFile as any, markdown);
-            linked.lastSyncedAt = new Date().toISOString();
-            await this.plugin.saveSettings();
-
-            new Notice(`Synced: ${linked.googleFileName}`);
-
         } catch (e: any) {
             new Notice(`Sync failed: ${e.message}`);
         }
@@ -310,20 +316,36 @@ export class WorkspaceView extends ItemView {
         menu.addItem((item) => {
             item.setTitle('Sync from Google')
                 .setIcon('refresh-cw')
-                .onClick(() => this.syncSingleFile(linked));
+                .onClick(() => this.syncSingleFile(linked, 'pull'));
+        });
+
+        menu.addItem((item) => {
+            item.setTitle('Push to Google')
+                .setIcon('upload')
+                .onClick(() => this.syncSingleFile(linked, 'push'));
         });
 
-        if (linked.googleFileType === 'docs') {
+        menu.addItem((item) => {
+            item.setTitle('Sync History')
+                .setIcon('history')
+                .onClick(() => new SyncHistoryModal(this.plugin, linked).open());
+        });
+
+        menu.addSeparator();
+
+        const modes: { mode: SyncMode; label: string }[] = [
+            { mode: 'pull', label: 'Sync mode: Pull only' },
+            { mode: 'push', label: 'Sync mode: Push only' },
+            { mode: 'two-way', label: 'Sync mode: Two-way' }
+        ];
+        for (const { mode, label } of modes) {
             menu.addItem((item) => {
-                item.setTitle('Push to Google')
-                    .setIcon('upload')
+                item.setTitle(label)
+                    .setChecked(getSyncMode(linked) === mode)
                     .onClick(async () => {
-                        const file = this.app.vault.getAbstractFileByPath(linked.localPath);
-                        if (file) {
-                            const content = await this.app.vault.read(file as any);
-                            await this.plugin.docsService.updateDocument(linked.googleFileId, content);
-                            new Notice(`Pushed to Google: ${linked.googleFileName}`);
-                        }
+                        linked.syncMode = mode;
+                        await this.plugin.saveSettings();
+                        this.renderLinkedFiles();
                     });
             });
         }
@@ -0,0 +1,154 @@
+import { finishRenderMath, loadMathJax, renderMath } from 'obsidian';
+
+export interface RenderedMath {
+    /** PNG image data */
+    data: ArrayBuffer;
+    /** Display size in pixels */
+    width: number;
+    height: number;
+}
+
+interface SvgMath {
+    markup: string;
+    width: number;
+    height: number;
+}
+
+/** MathJax sizes SVG formulas in ex; roughly the x-height of 11pt body text */
+const PIXELS_PER_EX = 7;
+/** Font size formulas are laid out at when rendered as HTML */
+const FONT_SIZE = 15;
+/** Render at a multiple of the display size so formulas stay sharp when zoomed */
+const RENDER_SCALE = 3;
+const MATHJAX_STYLES_ID = 'MJX-CHTML-styles';
+
+export class MathRenderer {
+    /** MathJax fonts as data URLs, by their original URL */
+    private static fontCache = new Map<string, Promise<string>>();
+
+    /**
+     * Render LaTeX to a PNG with Obsidian's bundled MathJax and fonts, without
+     * any network access. Returns null when the LaTeX has errors.
+     */
+    static async renderToPng(latex: string, display: boolean): Promise<RenderedMath | null> {
+        await loadMathJax();
+        const svg = this.renderSvg(latex, display) || await this.renderHtmlAsSvg(latex, display);
+        if (!svg || !svg.width || !svg.height) return null;
+
+        const image = new Image();
+        const loaded = new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve();
+            image.onerror = () => reject(new Error(`Could not render math: ${latex}`));
+        });
+        image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg.markup);
+        await loaded;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(svg.width * RENDER_SCALE);
+        canvas.height = Math.ceil(svg.height * RENDER_SCALE);
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+        context.scale(RENDER_SCALE, RENDER_SCALE);
+        context.drawImage(image, 0, 0, svg.width, svg.height);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) return null;
+
+        return { data: await blob.arrayBuffer(), width: Math.ceil(svg.width), height: Math.ceil(svg.height) };
+    }
+
+    /**
+     * Use MathJax's SVG output when this build includes it
+     */
+    private static renderSvg(latex: string, display: boolean): SvgMath | null {
+        const MathJax = (window as any).MathJax;
+        if (!MathJax?.tex2svg) return null;
+
+        const container: HTMLElement = MathJax.tex2svg(latex, { display });
+        const svg = container.querySelector('svg');
+        if (!svg || container.querySelector('[data-mjx-error]')) return null;
+
+        const width = this.exToPixels(svg.getAttribute('width'));
+        const height = this.exToPixels(svg.getAttribute('height'));
+        svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        svg.setAttribute('width', `${width}px`);
+        svg.setAttribute('height', `${height}px`);
+        // Glyphs are filled with currentColor
+        svg.setAttribute('color', 'black');
+
+        return { markup: new XMLSerializer().serializeToString(svg), width, height };
+    }
+
+    /**
+     * Wrap the HTML Obsidian renders math as in an SVG, together with the MathJax
+     * stylesheet and its fonts inlined, since an image can't load anything itself
+     */
+    private static async renderHtmlAsSvg(latex: string, display: boolean): Promise<SvgMath | null> {
+        const math = renderMath(latex, display);
+        await finishRenderMath();
+        if (math.querySelector('[data-mjx-error], mjx-merror')) return null;
+
+        // Measure the formula laid out off screen
+        const host = document.body.createDiv();
+        host.setCssStyles({ position: 'absolute', left: '-10000px', top: '0', fontSize: `${FONT_SIZE}px`, color: 'black' });
+        host.appendChild(math);
+        const rect = math.getBoundingClientRect();
+        const width = Math.ceil(rect.width);
+        const height = Math.ceil(rect.height);
+        host.remove();
+
+        const styles = await this.inlineFonts(document.getElementById(MATHJAX_STYLES_ID)?.textContent || '');
+        const wrapper = document.createElement('div');
+        wrapper.setAttribute('xmlns', 'http://www.w3.org/1999/xhtml');
+        wrapper.setAttribute('style', `font-size: ${FONT_SIZE}px; color: black; display: inline-block;`);
+        wrapper.createEl('style', { text: styles });
+        wrapper.appendChild(math);
+
+        const markup = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+            + `<foreignObject x="0" y="0" width="100%" height="100%">${new XMLSerializer().serializeToString(wrapper)}</foreignObject>`
+            + '</svg>';
+        return { markup, width, height };
+    }
+
+    /**
+     * Replace the font URLs in a stylesheet with data URLs
+     */
+    private static async inlineFonts(css: string): Promise<string> {
+        const urls = new Set<string>();
+        const pattern = /url\(["']?([^"')]+)["']?\)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(css)) !== null) {
+            if (!match[1].startsWith('data:')) {
+                urls.add(match[1]);
+            }
+        }
+
+        for (const url of Array.from(urls)) {
+            if (!this.fontCache.has(url)) {
+                this.fontCache.set(url, this.toDataUrl(url));
+            }
+            const dataUrl = await this.fontCache.get(url)!;
+            css = css.split(url).join(dataUrl);
+        }
+
+        return css;
+    }
+
+    private static async toDataUrl(url: string): Promise<string> {
+        // The fonts ship with the app, so this reads local files
+        const blob = await (await fetch(url)).blob();
+        return await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+        });
+    }
+
+    private static exToPixels(size: string | null): number {
+        const match = size?.match(/^([\d.]+)(ex|px)?$/);
+        if (!match) return 0;
+        const value = parseFloat(match[1]);
+        return match[2] === 'px' ? value : value * PIXELS_PER_EX;
+    }
+}
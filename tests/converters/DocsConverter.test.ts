@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import { DocsConverter } from '../../src/converters/DocsConverter';
+import { body, doc, heading } from './docsFixtures';
+
+const indent = { magnitude: 36, unit: 'PT' };
+const border = { width: { magnitude: 3, unit: 'PT' } };
+
+describe('block quotes', () => {
+    it('exports quotes as indented paragraphs with a left border', () => {
+        const { requests } = DocsConverter.markdownToDocsRequests('> Quoted');
+        const style = requests.find(request => request.updateParagraphStyle?.paragraphStyle.borderLeft);
+
+        expect(style.updateParagraphStyle.paragraphStyle.indentStart).toEqual(indent);
+        expect(style.updateParagraphStyle.fields).toContain('indentStart');
+    });
+
+    it('imports indented paragraphs with a left border as quotes', () => {
+        const markdown = DocsConverter.toMarkdown(doc('Doc', [{ text: 'Quoted', style: { indentStart: indent, borderLeft: border } }]));
+
+        expect(markdown).toBe('# Doc\n\n> Quoted');
+    });
+
+    it('leaves paragraphs that are only indented as they are', () => {
+        const markdown = DocsConverter.toMarkdown(doc('Doc', [{ text: 'Indented', style: { indentStart: indent } }]));
+
+        expect(markdown).toBe('# Doc\n\nIndented');
+    });
+});
+
+describe('import annotations', () => {
+    const source = doc('Doc', ['First paragraph', 'Second paragraph']);
+    const comments = [
+        {
+            id: 'c1',
+            createdTime: '2026-01-02T10:00:00Z',
+            author: { displayName: 'Ann' },
+            content: 'Check this',
+            quotedFileContent: { value: 'Second' },
+            replies: [{ createdTime: '2026-01-03T10:00:00Z', author: { displayName: 'Bob' }, content: 'Done' }]
+        },
+        { id: 'c2', createdTime: '2026-01-02T11:00:00Z', content: 'Unanchored', quotedFileContent: { value: 'Nowhere' } }
+    ];
+    const plain = DocsConverter.toMarkdown(source);
+
+    it('strips comment footnotes and the Comments section', () => {
+        const annotated = DocsConverter.toMarkdown(source, { comments, commentStyle: 'footnotes' });
+
+        expect(annotated).toContain('[^comment-1]');
+        expect(annotated).toContain('## Comments');
+        expect(DocsConverter.stripAnnotations(annotated)).toBe(plain);
+    });
+
+    it('strips comments listed in the Comments section', () => {
+        const annotated = DocsConverter.toMarkdown(source, { comments, commentStyle: 'section' });
+
+        expect(DocsConverter.stripAnnotations(annotated)).toBe(plain);
+    });
+
+    it('keeps the document\'s own footnotes', () => {
+        const markdown = 'Text[^1] and more[^comment-1]\n\n[^1]: Own note\n[^comment-1]: **Ann**: Comment';
+
+        expect(DocsConverter.stripAnnotations(markdown)).toBe('Text[^1] and more\n\n[^1]: Own note');
+    });
+
+    it('reports each suggested edit it marks', () => {
+        const suggested = doc('Doc', ['Kept']);
+        const paragraph = suggested.body.content[1].paragraph!;
+        paragraph.elements = [
+            { startIndex: 1, endIndex: 5, textRun: { content: 'Kept', textStyle: {} } },
+            { startIndex: 5, endIndex: 9, textRun: { content: ' new', textStyle: {}, suggestedInsertionIds: ['s1'] } },
+            { startIndex: 9, endIndex: 13, textRun: { content: ' old', textStyle: {}, suggestedDeletionIds: ['s2'] } },
+            { startIndex: 13, endIndex: 14, textRun: { content: '\n', textStyle: {} } }
+        ];
+        const marked: string[] = [];
+        const markdown = DocsConverter.toMarkdown(suggested, { suggestions: true, onSuggestion: (text) => marked.push(text) });
+
+        expect(markdown).toBe('# Doc\n\nKept ==new== ~~old~~');
+        expect(marked).toEqual(['==new==', '~~old~~']);
+    });
+});
+
+describe('DocsConverter.markdownToDocsUpdate', () => {
+    const source = doc('My Doc', [heading('Overview', 2), 'First paragraph', '', 'Second paragraph']);
+
+    it('rewrites only the paragraph that changed', () => {
+        const plain = doc('Doc', ['First paragraph', 'Second paragraph', 'Third paragraph']);
+        const { requests } = DocsConverter.markdownToDocsUpdate(plain, 'First paragraph\nChanged paragraph\nThird paragraph');
+        const inserted = requests.filter(request => request.insertText).map(request => request.insertText.text);
+        const deleted = requests.filter(request => request.deleteContentRange).map(request => request.deleteContentRange.range);
+
+        expect(inserted).toEqual(['Changed paragraph\n']);
+        expect(deleted).toEqual([{ startIndex: 17, endIndex: 34 }]);
+    });
+
+    it('makes no requests for the Markdown the document was imported as', () => {
+        const markdown = DocsConverter.toMarkdown(source);
+
+        expect(markdown.startsWith('# My Doc\n')).toBe(true);
+        expect(DocsConverter.markdownToDocsUpdate(source, markdown).requests).toEqual([]);
+    });
+
+    it('makes no requests when the body starts with the title heading too', () => {
+        const titled = doc('My Doc', [heading('My Doc'), 'Body']);
+
+        expect(DocsConverter.markdownToDocsUpdate(titled, DocsConverter.toMarkdown(titled)).requests).toEqual([]);
+        // An exported note has the heading once, in its own content
+        expect(DocsConverter.markdownToDocsUpdate(titled, '# My Doc\n\nBody').requests).toEqual([]);
+    });
+
+    it('only writes the changed block, without adding the title', () => {
+        const markdown = DocsConverter.toMarkdown(source).replace('Second paragraph', 'Changed paragraph');
+        const { requests } = DocsConverter.markdownToDocsUpdate(source, markdown);
+        const inserted = requests.filter(request => request.insertText).map(request => request.insertText.text);
+
+        expect(inserted).toEqual(['Changed paragraph\n']);
+    });
+});
+
+describe('DocsConverter.splitSections', () => {
+    const notes = doc('Notes', [heading('Overview'), 'Notes body']);
+    const details = doc('Details', [heading('Appendix'), 'Details body']);
+    const tabbed = {
+        documentId: 'doc',
+        title: 'Doc',
+        tabs: [
+            { tabProperties: { tabId: 't1', title: 'Notes' }, documentTab: { body: notes.body } },
+            { tabProperties: { tabId: 't2', title: 'Details' }, documentTab: { body: details.body } }
+        ]
+    } as any;
+
+    it('splits at every H1 heading without titles', () => {
+        const sections = DocsConverter.splitSections('Intro\n\n# A\n\nOne\n\n# B\n\nTwo');
+
+        expect(sections).toEqual([
+            { title: null, markdown: 'Intro' },
+            { title: 'A', markdown: 'One' },
+            { title: 'B', markdown: 'Two' }
+        ]);
+    });
+
+    it('only splits at the tab titles, keeping the tabs\' own H1 headings', () => {
+        const sections = DocsConverter.splitSections(DocsConverter.toMarkdown(tabbed), ['Notes', 'Details']);
+
+        expect(sections.map(section => section.title)).toEqual(['Notes', 'Details']);
+        expect(sections[0].markdown).toContain('# Overview');
+        expect(sections[1].markdown).toContain('# Appendix');
+    });
+
+    it('skips a tab whose title was removed', () => {
+        const sections = DocsConverter.splitSections('# Notes\n\nOne\n\n# Details\n\nTwo', ['Intro', 'Notes', 'Details']);
+
+        expect(sections.map(section => section.title)).toEqual(['Notes', 'Details']);
+    });
+
+    it('makes no requests for each tab of an unchanged note', () => {
+        const tabs = DocsConverter.getTabs(tabbed);
+        const sections = DocsConverter.splitSections(DocsConverter.toMarkdown(tabbed), tabs.map(tab => tab.title));
+
+        sections.forEach((section, i) => {
+            expect(DocsConverter.markdownToDocsUpdate(tabs[i], section.markdown).requests).toEqual([]);
+        });
+    });
+});
+
+describe('DocsConverter.getTabs', () => {
+    it('lists child tabs after their parent', () => {
+        const tab = (tabId: string, title: string, childTabs: any[] = []) => ({
+            tabProperties: { tabId, title },
+            documentTab: { body: { content: body([]) } },
+            childTabs
+        });
+        const tabbed = { documentId: 'doc', title: 'Doc', tabs: [tab('t1', 'One', [tab('t2', 'Child')]), tab('t3', 'Two')] } as any;
+
+        expect(DocsConverter.getTabs(tabbed).map(tab => [tab.tabId, tab.title])).toEqual([['t1', 'One'], ['t2', 'Child'], ['t3', 'Two']]);
+    });
+
+    it('keeps a document without tabs as it is', () => {
+        const source = doc('Doc', ['Body']);
+
+        expect(DocsConverter.getTabs(source)).toEqual([source]);
+    });
+});
+
+describe('header and footer import', () => {
+    const source = {
+        ...doc('Doc', ['Body']),
+        headers: { h1: { content: [{ paragraph: { elements: [{ textRun: { content: 'Report\n' } }] } }] } },
+        documentStyle: { defaultHeaderId: 'h1' }
+    } as any;
+
+    it('shows the header in a callout after the content', () => {
+        expect(DocsConverter.toMarkdown(source, { headersFooters: 'section' })).toBe('# Doc\n\nBody\n\n> [!note]- Header and footer\n> **Header:** Report\n');
+    });
+
+    it('leaves the header out by default', () => {
+        expect(DocsConverter.toMarkdown(source)).toBe('# Doc\n\nBody');
+    });
+});
+
+describe('DocsConverter.stripHeaderFooter', () => {
+    const source = {
+        ...doc('Doc', ['Body']),
+        headers: { h1: { content: [{ paragraph: { elements: [{ textRun: { content: 'Report\n' } }] } }] } },
+        documentStyle: { defaultHeaderId: 'h1' }
+    } as any;
+
+    it('strips the header and footer callout', () => {
+        const markdown = DocsConverter.toMarkdown(source, { headersFooters: 'section' });
+
+        expect(markdown).toContain('> **Header:** Report');
+        expect(DocsConverter.stripHeaderFooter(markdown)).toBe(DocsConverter.toMarkdown(source));
+    });
+
+    it('makes no requests once the callout is stripped', () => {
+        const markdown = DocsConverter.stripHeaderFooter(DocsConverter.toMarkdown(source, { headersFooters: 'section' }));
+
+        expect(DocsConverter.markdownToDocsUpdate(source, markdown).requests).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownInline } from '../../src/converters/MarkdownInline';
+
+describe('MarkdownInline.parse', () => {
+    it('removes emphasis markers and styles the text they enclose', () => {
+        const { text, spans } = MarkdownInline.parse('Some **bold** and *italic* ~~gone~~');
+
+        expect(text).toBe('Some bold and italic gone');
+        expect(spans).toEqual([
+            { start: 5, end: 9, style: { bold: true } },
+            { start: 14, end: 20, style: { italic: true } },
+            { start: 21, end: 25, style: { strikethrough: true } }
+        ]);
+    });
+
+    it('closes nested emphasis with the first characters of a shared closing run', () => {
+        const bold = MarkdownInline.parse('**bold *and italic***');
+        const italic = MarkdownInline.parse('*italic **and bold***');
+
+        expect(bold.text).toBe('bold and italic');
+        expect(bold.spans).toEqual([
+            { start: 0, end: 5, style: { bold: true } },
+            { start: 5, end: 15, style: { bold: true, italic: true } }
+        ]);
+        expect(italic.text).toBe('italic and bold');
+        expect(italic.spans).toEqual([
+            { start: 0, end: 7, style: { italic: true } },
+            { start: 7, end: 15, style: { italic: true, bold: true } }
+        ]);
+    });
+
+    it('reads unmatched delimiters in linear time', () => {
+        const source = '*a '.repeat(2000) + 'x';
+        const started = Date.now();
+
+        expect(MarkdownInline.parse(source).text).toBe(source);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('keeps Markdown inside code as text', () => {
+        const { text, spans } = MarkdownInline.parse('Run `a **b**`');
+
+        expect(text).toBe('Run a **b**');
+        expect(spans).toEqual([{ start: 4, end: 11, style: { code: true } }]);
+    });
+
+    it('keeps escaped markers and unmatched delimiters as text', () => {
+        expect(MarkdownInline.parse('\\*not italic\\* and 2 * 3').text).toBe('*not italic* and 2 * 3');
+    });
+
+    it('links the text of Markdown links and autolinks', () => {
+        const { text, spans } = MarkdownInline.parse('[Docs](https://example.com) <https://a.io>');
+
+        expect(text).toBe('Docs https://a.io');
+        expect(spans.map(span => span.style.link)).toEqual(['https://example.com', 'https://a.io']);
+    });
+
+    it('shows wikilinks by their alias or heading and links them when they resolve', () => {
+        const resolveWikilink = (linkpath: string) => linkpath === 'Linked' ? 'https://docs.google.com/d/1' : null;
+        const { text, spans } = MarkdownInline.parse('[[Linked|alias]] and [[Other#Part]]', { resolveWikilink });
+
+        expect(text).toBe('alias and Other > Part');
+        expect(spans).toEqual([{ start: 0, end: 5, style: { link: 'https://docs.google.com/d/1' } }]);
+    });
+
+    it('places images between the characters of the text', () => {
+        const { text, objects } = MarkdownInline.parse('A ![[pic.png|300]] b', { resolveImage: target => `https://img/${target}` });
+
+        expect(text).toBe('A  b');
+        expect(objects).toEqual([{ kind: 'image', offset: 2, uri: 'https://img/pic.png', width: 300 }]);
+    });
+
+    it('keeps embeds that don\'t resolve as text', () => {
+        expect(MarkdownInline.parse('![[missing.png]] x').text).toBe('![[missing.png]] x');
+    });
+
+    it('places footnote references before the character that follows them', () => {
+        const { text, objects } = MarkdownInline.parse('A b[^1] c', { resolveFootnote: label => label === '1' ? 'Note' : null });
+
+        expect(text).toBe('A b c');
+        expect(objects).toEqual([{ kind: 'footnote', offset: 3, content: 'Note' }]);
+    });
+
+    it('keeps references to undefined footnotes as text', () => {
+        expect(MarkdownInline.parse('x[^none]', { resolveFootnote: () => null }).text).toBe('x[^none]');
+    });
+
+    it('renders math as images and keeps prices as text', () => {
+        const resolveMath = () => ({ uri: 'https://img/math.png', width: 20, height: 10 });
+        const { text, objects } = MarkdownInline.parse('Area $r^2$ for $5 and $10', { resolveMath });
+
+        expect(text).toBe('Area  for $5 and $10');
+        expect(objects).toEqual([{ kind: 'image', offset: 5, uri: 'https://img/math.png', width: 20, height: 10, math: '$r^2$' }]);
+    });
+});
@@ -0,0 +1,39 @@
+import { DocumentContent, GoogleDocsDocument } from '../../src/services/DocsService';
+
+export interface ParagraphSpec {
+    text: string;
+    style?: NonNullable<DocumentContent['paragraph']>['paragraphStyle'];
+}
+
+/**
+ * Body content holding one plain-text paragraph per spec, indexed the way Docs
+ * indexes it: a section break, then each paragraph with its newline
+ */
+export function body(paragraphs: (string | ParagraphSpec)[]): DocumentContent[] {
+    const content: DocumentContent[] = [{ startIndex: 0, endIndex: 1, sectionBreak: {} }];
+    let index = 1;
+
+    for (const paragraph of paragraphs) {
+        const spec = typeof paragraph === 'string' ? { text: paragraph } : paragraph;
+        const text = spec.text + '\n';
+        content.push({
+            startIndex: index,
+            endIndex: index + text.length,
+            paragraph: {
+                elements: [{ startIndex: index, endIndex: index + text.length, textRun: { content: text, textStyle: {} } }],
+                paragraphStyle: { namedStyleType: 'NORMAL_TEXT', ...spec.style }
+            }
+        });
+        index += text.length;
+    }
+
+    return content;
+}
+
+export function doc(title: string, paragraphs: (string | ParagraphSpec)[]): GoogleDocsDocument {
+    return { documentId: 'doc', title, body: { content: body(paragraphs) } } as GoogleDocsDocument;
+}
+
+export function heading(text: string, level: number = 1): ParagraphSpec {
+    return { text, style: { namedStyleType: `HEADING_${level}` } };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { SyncRegion } from '../../src/sync/SyncRegion';
+
+const frontmatter = '---\ngoogle_id: abc\n---\n';
+
+describe('SyncRegion.split', () => {
+    it('syncs the whole body below the frontmatter without markers', () => {
+        const parts = SyncRegion.split(`${frontmatter}# Title\n\nBody`);
+
+        expect(parts).toEqual({ before: frontmatter, synced: '# Title\n\nBody', after: '' });
+    });
+
+    it('syncs only the content between the markers', () => {
+        const note = `${frontmatter}Private\n%% google-sync:start %%\nShared\n%% google-sync:end %%\nAlso private`;
+        const parts = SyncRegion.split(note);
+
+        expect(parts.synced).toBe('Shared');
+        expect(parts.before + parts.synced + parts.after).toBe(note);
+    });
+
+    it('runs an unterminated region to the end of the note', () => {
+        expect(SyncRegion.extract('Private\n%% google-sync:start %%\nShared\n')).toBe('Shared\n');
+    });
+});
+
+describe('SyncRegion.replace', () => {
+    const note = `${frontmatter}Private\n%% google-sync:start %%\nOld\n%% google-sync:end %%\nAlso private\n`;
+
+    it('keeps the markers on their own lines', () => {
+        const written = SyncRegion.replace(SyncRegion.split(note), 'New\n\nText');
+
+        expect(written).toBe(`${frontmatter}Private\n%% google-sync:start %%\nNew\n\nText\n%% google-sync:end %%\nAlso private\n`);
+    });
+
+    it('reads back exactly the content written', () => {
+        for (const synced of ['New', 'New\n', 'New\n\n', '']) {
+            const written = SyncRegion.replace(SyncRegion.split(note), synced);
+            expect(SyncRegion.extract(written)).toBe(synced);
+        }
+    });
+
+    it('reads back content written into an empty region', () => {
+        const empty = 'Private\n%% google-sync:start %%\n%% google-sync:end %%\n';
+
+        for (const synced of ['New', 'New\n']) {
+            expect(SyncRegion.extract(SyncRegion.replace(SyncRegion.split(empty), synced))).toBe(synced);
+        }
+    });
+
+    it('leaves a note unchanged when its own content is put back', () => {
+        const parts = SyncRegion.split(note);
+
+        expect(SyncRegion.replace(parts, parts.synced)).toBe(note);
+    });
+});
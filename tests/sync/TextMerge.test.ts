@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictChoice, ConflictChunk, TextMerge } from '../../src/sync/TextMerge';
+
+const labels = { local: 'Local', remote: 'Doc' };
+
+function merge(base: string, local: string, remote: string) {
+    return TextMerge.merge(TextMerge.splitLines(base), TextMerge.splitLines(local), TextMerge.splitLines(remote));
+}
+
+describe('TextMerge.merge', () => {
+    it('applies non-overlapping changes from both sides', () => {
+        const result = merge('a\nb\nc\nd', 'A\nb\nc\nd', 'a\nb\nc\nD');
+
+        expect(result.conflicts).toHaveLength(0);
+        expect(result.autoMerged).toBe(2);
+        expect(TextMerge.render(result, labels)).toBe('A\nb\nc\nD');
+    });
+
+    it('takes identical changes once', () => {
+        const result = merge('a\nb', 'a\nB', 'a\nB');
+
+        expect(result.conflicts).toHaveLength(0);
+        expect(TextMerge.render(result, labels)).toBe('a\nB');
+    });
+
+    it('reports overlapping changes as a conflict', () => {
+        const result = merge('a\nb\nc', 'a\nlocal\nc', 'a\nremote\nc');
+
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]).toMatchObject({ base: ['b'], local: ['local'], remote: ['remote'] });
+    });
+});
+
+describe('TextMerge.render', () => {
+    const result = merge('a\nb\nc\nd\ne', 'a\nB1\nc\nD1\ne', 'a\nB2\nc\nD2\ne');
+
+    it('writes conflict markers for conflicts without a resolution', () => {
+        const text = TextMerge.render(result, labels);
+
+        expect(text).toBe('a\n<<<<<<< Local\nB1\n=======\nB2\n>>>>>>> Doc\nc\n<<<<<<< Local\nD1\n=======\nD2\n>>>>>>> Doc\ne');
+        expect(TextMerge.hasConflictMarkers(text)).toBe(true);
+    });
+
+    it('applies the chosen side', () => {
+        const resolutions = new Map<ConflictChunk, ConflictChoice>([
+            [result.conflicts[0], 'local'],
+            [result.conflicts[1], 'both']
+        ]);
+        const text = TextMerge.render(result, labels, resolutions);
+
+        expect(text).toBe('a\nB1\nc\nD1\nD2\ne');
+        expect(TextMerge.hasConflictMarkers(text)).toBe(false);
+    });
+});
+
+describe('TextMerge.unresolvedConflicts', () => {
+    const result = merge('a\nb\nc\nd\ne', 'a\nB1\nc\nD1\ne', 'a\nB2\nc\nD2\ne');
+
+    it('counts every conflict when nothing was resolved', () => {
+        expect(TextMerge.unresolvedConflicts(result)).toBe(2);
+        expect(TextMerge.unresolvedConflicts(result, new Map())).toBe(2);
+    });
+
+    it('counts conflicts left open after a partial resolution', () => {
+        const resolutions = new Map<ConflictChunk, ConflictChoice>([[result.conflicts[1], 'remote']]);
+
+        expect(TextMerge.unresolvedConflicts(result, resolutions)).toBe(1);
+        expect(TextMerge.hasConflictMarkers(TextMerge.render(result, labels, resolutions))).toBe(true);
+    });
+});
+
+describe('TextMerge.commonLines', () => {
+    it('keeps additions from both sides when there is no base', () => {
+        const local = TextMerge.splitLines('a\nlocal\nb');
+        const remote = TextMerge.splitLines('a\nb\nremote');
+        const result = TextMerge.merge(TextMerge.commonLines(local, remote), local, remote);
+
+        expect(TextMerge.render(result, labels)).toBe('a\nlocal\nb\nremote');
+    });
+});